@@ -0,0 +1,26 @@
+export function Cadastro({ aoEnviar, aoFechar, avatar, props }) {
+  return (
+    <form onSubmit={aoEnviar}>
+      <img src={avatar} />
+      <img src="/logo.png" alt="" />
+      <div onClick={aoFechar}>Fechar</div>
+      <div role="button" tabIndex={0} onClick={aoFechar} onKeyDown={aoFechar}>Fechar</div>
+      <span role="button" onClick={aoFechar}>x</span>
+      <a onClick={aoFechar}>Cancelar</a>
+      <a href="#">Topo</a>
+      <a href="/ajuda">Ajuda</a>
+      <input type="text" name="nome" placeholder="Nome" />
+      <label htmlFor="email">E-mail</label>
+      <input id="email" type="email" />
+      <label>
+        Telefone
+        <input type="tel" />
+      </label>
+      <select id="estado"></select>
+      <textarea aria-label="Observações" />
+      <input type="hidden" name="origem" />
+      <input {...props} />
+      <button type="submit" tabIndex={2}>Enviar</button>
+    </form>
+  );
+}
@@ -0,0 +1,37 @@
+// "sincronizarPedidos" tem 6 níveis de blocos aninhados (limite padrão 4) e
+// gera "profundidade-aninhamento" apontando para o if mais interno.
+function sincronizarPedidos(lojas) {
+  for (const loja of lojas) {                          // nível 1
+    if (loja.ativa) {                                  // nível 2
+      for (const pedido of loja.pedidos) {             // nível 3
+        try {                                          // nível 4
+          switch (pedido.estado) {                     // nível 5
+            case 'pago':
+              if (!pedido.enviado) {                   // nível 6
+                pedido.enviado = true;
+              }
+              break;
+          }
+        } catch (erro) {
+          loja.falhas.push(erro);
+        }
+      }
+    }
+  }
+}
+
+// Callbacks com 4 níveis de aninhamento (limite padrão 3) no escopo do módulo
+// geram "aninhamento-callbacks" apontando para o callback mais interno.
+const { readdir, readFile, writeFile } = require('fs');
+
+readdir('./entrada', (erroLeitura, arquivos) => {
+  arquivos.forEach(arquivo => {
+    readFile(`./entrada/${arquivo}`, 'utf8', (erroArquivo, conteudo) => {
+      writeFile(`./saida/${arquivo}`, conteudo.trim(), erroEscrita => {
+        if (erroEscrita) throw erroEscrita;
+      });
+    });
+  });
+});
+
+module.exports = { sincronizarPedidos };
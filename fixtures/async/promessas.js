@@ -0,0 +1,59 @@
+const fs = require('fs');
+
+async function carregarUsuario(id) {
+  const resposta = await fetch(`/api/usuarios/${id}`);
+  return resposta.json();
+}
+
+async function formatarNome(usuario) {
+  return `${usuario.nome} ${usuario.sobrenome}`;
+}
+
+function registrarAcesso(id) {
+  carregarUsuario(id);
+  fetch('/api/acessos', { method: 'POST' });
+  carregarUsuario(id).catch(erro => console.error(erro));
+  void carregarUsuario(id);
+  return carregarUsuario(id);
+}
+
+async function carregarTodos(ids) {
+  const usuarios = [];
+  for (const id of ids) {
+    usuarios.push(await carregarUsuario(id));
+  }
+  return usuarios;
+}
+
+async function lerPaginas(cliente) {
+  let pagina = await cliente.primeira();
+  while (pagina.proxima) {
+    pagina = await cliente.buscar(pagina.proxima);
+  }
+  return pagina;
+}
+
+function lerConfiguracao(caminho) {
+  return new Promise((resolve, reject) => {
+    fs.promises.readFile(caminho, 'utf8').then(resolve, reject);
+  });
+}
+
+function esperar(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+const baixar = url => new Promise(async (resolve) => {
+  resolve(await carregarUsuario(url));
+});
+
+async function sincronizar(id) {
+  const usuario = await carregarUsuario(id);
+  return salvar(usuario).then(() => usuario);
+}
+
+function salvar(usuario) {
+  return Promise.resolve(usuario);
+}
+
+module.exports = { formatarNome, registrarAcesso, carregarTodos, lerPaginas, lerConfiguracao, esperar, baixar, sincronizar };
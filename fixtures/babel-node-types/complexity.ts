@@ -0,0 +1,46 @@
+// Cada método abaixo tem complexidade ciclomática acima do limite padrão (10)
+// e deve gerar um "complexidade-ciclomatica".
+
+export class ValidadorPedido {
+  // ClassMethod
+  validarItens(itens: Array<{ quantidade: number; preco: number; ativo: boolean }>): string[] {
+    const erros: string[] = [];
+    for (const produto of itens) {
+      if (produto.quantidade <= 0 || produto.quantidade > 100) erros.push('quantidade');
+      if (produto.preco < 0 && produto.ativo) erros.push('preco');
+      if (!produto.ativo || produto.preco === 0) erros.push('inativo');
+      while (erros.length > 10 && erros[0]) erros.shift();
+    }
+    return erros.length > 0 ? erros : [];
+  }
+
+  // ClassPrivateMethod
+  #classificarCliente(pontos: number, anos: number, ativo: boolean): string {
+    if (pontos > 1000 && anos > 5) return 'ouro';
+    if (pontos > 500 || anos > 3) return 'prata';
+    if (ativo && pontos > 100) return 'bronze';
+    switch (anos) {
+      case 0: return 'novo';
+      case 1: return 'recente';
+      default: return ativo ? 'regular' : 'inativo';
+    }
+  }
+
+  resumo(): string {
+    return this.#classificarCliente(0, 0, false);
+  }
+}
+
+export const calculadoraFrete = {
+  // ObjectMethod
+  calcular(peso: number, distancia: number, expresso: boolean, fragil: boolean): number {
+    let valor = 10;
+    if (peso > 10 && distancia > 100) valor += 20;
+    if (peso > 30 || distancia > 500) valor += 40;
+    if (expresso && fragil) valor *= 2;
+    for (let trecho = 0; trecho < distancia / 100 && trecho < 10; trecho++) {
+      valor += fragil ? 5 : 2;
+    }
+    return valor;
+  }
+};
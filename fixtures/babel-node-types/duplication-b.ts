@@ -0,0 +1,16 @@
+// O método "normalizar" é idêntico nos dois arquivos duplication-*.ts e deve
+// gerar um "codigo-duplicado" apontando para o outro arquivo.
+
+export class NormalizadorB {
+  // ClassMethod
+  normalizar(entrada: Record<string, string>): Record<string, string> {
+    const saida: Record<string, string> = {};
+    for (const chave of Object.keys(entrada)) {
+      const valor = entrada[chave].trim().toLowerCase();
+      if (valor.length > 0 && !chave.startsWith('_')) {
+        saida[chave.toLowerCase()] = valor.replace(/\s+/g, ' ');
+      }
+    }
+    return saida;
+  }
+}
@@ -0,0 +1,57 @@
+// Cada declaração abaixo deve gerar um "convencao-nomenclatura".
+
+// TSInterfaceDeclaration -> interfaces devem usar PascalCase
+interface configuracao_servico {
+  porta: number;
+}
+
+// TSTypeAliasDeclaration -> tipos devem usar PascalCase
+type resultado_busca = string[];
+
+// TSEnumDeclaration -> enums devem usar PascalCase
+enum estado_pedido {
+  // TSEnumMember -> membros de enum devem usar PascalCase ou UPPER_SNAKE_CASE
+  em_analise,
+  Aprovado
+}
+
+abstract class RepositorioBase {
+  // ClassProperty -> propriedades devem usar camelCase
+  Total_registros = 0;
+
+  // ClassPrivateProperty (#campo) -> propriedades devem usar camelCase
+  #Conexao_ativa = false;
+
+  // ClassProperty static readonly em maiúsculas -> constante, sem problema
+  static readonly LIMITE_PADRAO = 50;
+
+  // ClassMethod -> métodos devem usar camelCase
+  Buscar_todos(): string[] {
+    return [];
+  }
+
+  // ClassPrivateMethod (#metodo) -> métodos devem usar camelCase
+  #Abrir_conexao(): void {
+    this.#Conexao_ativa = true;
+  }
+
+  // TSDeclareMethod (método abstrato) -> métodos devem usar camelCase
+  abstract Salvar_registro(registro: unknown): void;
+}
+
+const servicoPedidos = {
+  // ObjectProperty -> propriedades devem usar camelCase
+  Url_base: '/pedidos',
+
+  // ObjectMethod -> métodos devem usar camelCase
+  Listar_pedidos() {
+    return [];
+  }
+};
+
+// Constante em maiúsculas -> constante, sem problema
+const TEMPO_LIMITE_MS = 5000;
+
+export { RepositorioBase, servicoPedidos, TEMPO_LIMITE_MS };
+export type { configuracao_servico, resultado_busca };
+export { estado_pedido };
@@ -0,0 +1,41 @@
+// O método abaixo passa do limite padrão de 30 linhas ("tamanho-metodo") e de
+// 5 parâmetros ("funcao-parâmetros").
+
+export class GeradorRelatorio {
+  // ClassMethod
+  gerar(titulo: string, autor: string, data: string, formato: string, idioma: string, rodape: string): string[] {
+    const linhas: string[] = [];
+    linhas.push(`${titulo} - seção 1`);
+    linhas.push(`${titulo} - seção 2`);
+    linhas.push(`${titulo} - seção 3`);
+    linhas.push(`${titulo} - seção 4`);
+    linhas.push(`${titulo} - seção 5`);
+    linhas.push(`${titulo} - seção 6`);
+    linhas.push(`${titulo} - seção 7`);
+    linhas.push(`${titulo} - seção 8`);
+    linhas.push(`${titulo} - seção 9`);
+    linhas.push(`${titulo} - seção 10`);
+    linhas.push(`${titulo} - seção 11`);
+    linhas.push(`${titulo} - seção 12`);
+    linhas.push(`${titulo} - seção 13`);
+    linhas.push(`${titulo} - seção 14`);
+    linhas.push(`${titulo} - seção 15`);
+    linhas.push(`${titulo} - seção 16`);
+    linhas.push(`${titulo} - seção 17`);
+    linhas.push(`${titulo} - seção 18`);
+    linhas.push(`${titulo} - seção 19`);
+    linhas.push(`${titulo} - seção 20`);
+    linhas.push(`${titulo} - seção 21`);
+    linhas.push(`${titulo} - seção 22`);
+    linhas.push(`${titulo} - seção 23`);
+    linhas.push(`${titulo} - seção 24`);
+    linhas.push(`${titulo} - seção 25`);
+    linhas.push(`${titulo} - seção 26`);
+    linhas.push(`${titulo} - seção 27`);
+    linhas.push(`${titulo} - seção 28`);
+    linhas.push(`${titulo} - seção 29`);
+    linhas.push(`${titulo} - seção 30`);
+    linhas.push(autor, data, formato, idioma, rodape);
+    return linhas;
+  }
+}
@@ -0,0 +1,58 @@
+function calcularFrete(pedido) {
+  if (!pedido.itens.length) {
+    return 0;
+    console.warn('pedido vazio');
+  }
+
+  for (const item of pedido.itens) {
+    if (item.brinde) {
+      continue;
+      item.peso = 0;
+    }
+  }
+
+  if (false) {
+    return pedido.total * 0.1;
+  }
+
+  const taxa = pedido.expresso ? 15 : 'true' ? 10 : 5;
+
+  if (pedido.regiao === 'norte') {
+    return 30 + taxa;
+  } else if (pedido.regiao === 'sul') {
+    return 20 + taxa;
+  } else if (pedido.regiao  ===  'norte') {
+    return 25 + taxa;
+  }
+
+  return taxa;
+
+  function ajustar(valor) {
+    return valor;
+  }
+}
+
+function registrar(evento) {
+  if (evento.tipo === 'erro') {
+  } else {
+    console.error(evento);
+  }
+
+  try {
+    evento.enviar();
+  } finally {
+    // nada a liberar: o envio não abre recursos
+  }
+}
+
+const ignorar = () => {};
+
+function semOperacao() {
+  // intencional: callback exigido pela API de plugins
+}
+
+class Servico {
+  constructor() {}
+}
+
+module.exports = { calcularFrete, registrar, ignorar, semOperacao, Servico };
@@ -0,0 +1,52 @@
+import { readFileSync, writeFileSync } from 'fs';
+import type { Stats } from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+
+interface Configuracao {
+  estatisticas: Stats;
+}
+
+export class LeitorDeArquivos extends EventEmitter {
+  #lidos = 0;
+  #ignorados = 0;
+  private cache = new Map<string, string>();
+  private limite = 10;
+
+  constructor(private readonly raiz: string, private readonly codificacao: BufferEncoding) {
+    super();
+  }
+
+  ler(nome: string, opcoes: Configuracao, _contexto: unknown): string {
+    const completo = `${this.raiz}/${nome}`;
+    const tentativas = 3;
+    let ultimoErro;
+    ultimoErro = null;
+
+    if (!this.cache.has(completo)) {
+      this.cache.set(completo, readFileSync(completo, this.codificacao));
+      this.#lidos++;
+    }
+
+    return this.cache.get(completo)!;
+  }
+
+  private formatar(conteudo: string): string {
+    return conteudo.trim();
+  }
+}
+
+export function resumir({ nome, tamanho, ...resto }: { nome: string; tamanho: number }, detalhado: boolean) {
+  const { tamanho: _ignorado, ...semTamanho } = resto as any;
+  return [nome, semTamanho].join(' ');
+}
+
+function auxiliarEsquecida() {
+  return 42;
+}
+
+class LeitorAntigo {
+  ler(): string {
+    return "";
+  }
+}
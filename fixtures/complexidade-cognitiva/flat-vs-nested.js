@@ -0,0 +1,48 @@
+// "rotuloDoMes" é um switch plano: complexidade ciclomática 13 (gera
+// "complexidade-ciclomatica"), mas cognitiva só 1.
+function rotuloDoMes(mes) {
+  switch (mes) {
+    case 1: return 'janeiro';
+    case 2: return 'fevereiro';
+    case 3: return 'março';
+    case 4: return 'abril';
+    case 5: return 'maio';
+    case 6: return 'junho';
+    case 7: return 'julho';
+    case 8: return 'agosto';
+    case 9: return 'setembro';
+    case 10: return 'outubro';
+    case 11: return 'novembro';
+    default: return 'dezembro';
+  }
+}
+
+// "conciliarLancamentos" tem complexidade ciclomática 8 (dentro do limite),
+// mas cognitiva 22 por causa do aninhamento (gera "complexidade-cognitiva").
+function conciliarLancamentos(contas, extrato) {
+  const pendentes = [];
+  for (const conta of contas) {                              // +1
+    for (const lancamento of conta.lancamentos) {            // +2 (aninhamento 1)
+      if (!lancamento.conciliado) {                          // +3 (aninhamento 2)
+        const encontrado = extrato.find(registro => {
+          if (registro.valor === lancamento.valor) {         // +5 (aninhamento 4)
+            return registro.data === lancamento.data;
+          }
+          return false;
+        });
+        if (encontrado) {                                    // +4 (aninhamento 3)
+          lancamento.conciliado = true;
+        } else if (conta.tolerante) {                        // +1
+          pendentes.push(lancamento);
+        } else {                                             // +1
+          while (pendentes.length > 100) {                   // +5 (aninhamento 4)
+            pendentes.shift();
+          }
+        }
+      }
+    }
+  }
+  return pendentes;
+}
+
+module.exports = { rotuloDoMes, conciliarLancamentos };
@@ -0,0 +1,38 @@
+export function media(valores: number[]): number {
+  let soma = 0;
+  for (const valor of valores) {
+    soma += valor;
+  }
+  return soma / valores.length;
+}
+
+interface Parcela {
+  valor: number;
+  vencimento: Date;
+  paga: boolean;
+}
+
+export function resumirParcelas(parcelas: Parcela[], hoje: Date, tolerancia = 3) {
+  let emAberto = 0;
+  let vencidas = 0;
+  let proxima: Parcela | null = null;
+
+  for (const parcela of parcelas) {
+    if (parcela.paga) continue;
+
+    emAberto += parcela.valor;
+    const atraso = (hoje.getTime() - parcela.vencimento.getTime()) / 86400000;
+
+    if (atraso > tolerancia) {
+      vencidas++;
+    } else if (!proxima || parcela.vencimento < proxima.vencimento) {
+      proxima = parcela;
+    }
+  }
+
+  return {
+    emAberto: Math.round(emAberto * 100) / 100,
+    vencidas,
+    situacao: vencidas > 0 ? 'atrasado' : proxima ? 'em dia' : 'quitado'
+  };
+}
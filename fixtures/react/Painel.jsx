@@ -0,0 +1,50 @@
+import React, { useState, useEffect, memo } from 'react';
+
+export function Painel({ usuario, itens, carregando }) {
+  if (carregando) {
+    const [aberto, setAberto] = useState(false);
+  }
+
+  useEffect(() => {
+    document.title = usuario.nome;
+  });
+
+  const aoClicar = () => {
+    const [valor] = useState(0);
+    return valor;
+  };
+
+  return (
+    <ul onClick={aoClicar}>
+      {itens.map(item => (
+        <Item nome={item.nome} estilo={{ cor: 'azul' }} />
+      ))}
+      {itens.map(item => {
+        return <Item key={item.id} tags={[item.tipo]} style={{ margin: 0 }} />;
+      })}
+      {itens.map(item => <>{item.nome}</>)}
+    </ul>
+  );
+}
+
+function formatarData(data) {
+  const [formato] = useState('dd/MM');
+  return data.toString(formato);
+}
+
+export const Item = memo(({ nome }) => {
+  useEffect(() => {}, [nome]);
+  return <li>{nome}</li>;
+});
+
+export function useContador(inicial) {
+  const [valor, setValor] = useState(inicial);
+  for (const passo of [1, 2]) {
+    React.useEffect(() => setValor(passo), [passo]);
+  }
+  return valor;
+}
+
+export function Cartao({ titulo, subtitulo, imagem, autor, data, tags, curtidas, comentarios, aoAbrir }) {
+  return <div onClick={aoAbrir}>{titulo}</div>;
+}
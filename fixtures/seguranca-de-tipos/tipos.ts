@@ -0,0 +1,33 @@
+interface Evento {
+  nome: string;
+  dados: any;
+  callback: Function;
+}
+
+export function processar(evento: Evento) {
+  const dados = evento.dados as any;
+  return dados.valor;
+}
+
+export const formatar = (valor: number): string => valor.toFixed(2);
+
+export const normalizar = (texto: string) => texto.trim().toLowerCase();
+
+export function converter(entrada: string): number {
+  const bruto = JSON.parse(entrada) as unknown as { valor: number };
+  return bruto.valor;
+}
+
+function buscar(mapa: Map<string, Evento>, chave: string): Evento {
+  return mapa.get(chave)!;
+}
+
+// @ts-ignore
+const legado: Object = buscar;
+
+// @ts-ignore: a tipagem da biblioteca não inclui o segundo parâmetro
+const inicio = Date.now();
+
+export default function (): void {
+  console.log(legado, inicio);
+}
@@ -0,0 +1,3 @@
+export function Comentario({ html }) {
+  return <div className="comentario" dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,42 @@
+const fs = require('fs');
+const path = require('path');
+const { exec } = require('child_process');
+const childProcess = require('node:child_process');
+
+function calcular(expressao) {
+  return eval(expressao);
+}
+
+const somar = new Function('a', 'b', 'return a + b');
+
+function agendar(nome) {
+  setTimeout('atualizar("' + nome + '")', 1000);
+  setTimeout(() => atualizar(nome), 1000);
+}
+
+function renderizar(elemento, usuario) {
+  elemento.innerHTML = `<strong>${usuario.nome}</strong>`;
+  elemento.innerHTML = '';
+  document.write(usuario.assinatura);
+}
+
+function compactar(req, res) {
+  exec(`tar -czf saida.tgz ${req.query.pasta}`, () => res.end());
+  childProcess.exec('git log ' + req.query.ref);
+  childProcess.exec('git status');
+}
+
+function baixar(req, res) {
+  const arquivo = fs.readFileSync(path.join(__dirname, 'publico', req.params.nome));
+  res.send(arquivo);
+}
+
+function lerPadrao() {
+  return fs.readFileSync(path.join(__dirname, 'padrao.json'), 'utf8');
+}
+
+function atualizar(nome) {
+  return nome;
+}
+
+module.exports = { calcular, somar, agendar, renderizar, compactar, baixar, lerPadrao };
@@ -0,0 +1,88 @@
+const fs = require('fs');
+
+function lerJson(caminho) {
+  try {
+    return JSON.parse(fs.readFileSync(caminho, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function removerTemporario(caminho) {
+  try {
+    fs.unlinkSync(caminho);
+  } catch (erro) {
+  }
+}
+
+function carregarPreferencias(caminho) {
+  try {
+    return lerJson(caminho);
+  } catch (erro) {
+    console.error('Falha ao ler preferências', erro);
+  }
+}
+
+function validarIdade(idade) {
+  if (idade < 0) {
+    throw 'Idade inválida';
+  }
+  return idade;
+}
+
+function conectar(url) {
+  try {
+    return abrirConexao(url);
+  } catch (erro) {
+    return { conectado: false };
+  }
+}
+
+function processar(itens) {
+  try {
+    return itens.map(item => item.valor);
+  } catch (erro) {
+    itens.forEach(erro => registrar(erro));
+    throw new Error(`Falha ao processar: ${erro.message}`);
+  }
+}
+
+function salvar(registro) {
+  try {
+    return gravar(registro);
+  } catch (erro) {
+    throw new Error('Falha ao salvar', { cause: erro });
+  }
+}
+
+function importar(arquivo) {
+  try {
+    const conteudo = fs.readFileSync(arquivo, 'utf8');
+    const linhas = conteudo.split('\n');
+    const preenchidas = linhas.filter(linha => linha.trim() !== '');
+    const registros = preenchidas.map(linha => linha.split(';'));
+    return registros.filter(registro => registro.length > 1);
+  } catch (erro) {
+    throw new ImportacaoError(arquivo, erro);
+  }
+}
+
+function abrirConexao(url) {
+  return { url, conectado: true };
+}
+
+function gravar(registro) {
+  return registro;
+}
+
+function registrar(valor) {
+  return valor;
+}
+
+class ImportacaoError extends Error {
+  constructor(arquivo, causa) {
+    super(`Falha ao importar ${arquivo}`, { cause: causa });
+  }
+}
+
+module.exports = { removerTemporario, carregarPreferencias, validarIdade, conectar, processar, salvar, importar };
@@ -0,0 +1,12 @@
+const { calcularTotal } = require('./pedidos');
+
+function calcularFrete(pedido) {
+  if (pedido.status === 'cancelado') return 0;
+  return calcularTotal(pedido) > 300 ? 0 : 25;
+}
+
+function descreverFrete(pedido) {
+  return pedido.status === 'cancelado' ? 'sem frete' : `frete para ${pedido.cep}`;
+}
+
+module.exports = { calcularFrete, descreverFrete };
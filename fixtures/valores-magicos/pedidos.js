@@ -0,0 +1,27 @@
+const TAXA_DE_SERVICO = 0.1;
+const LIMITES = { itens: 50, tentativas: 3 };
+const UM_DIA_MS = 24 * 60 * 60 * 1000;
+
+function calcularTotal(pedido, desconto = 15) {
+  const subtotal = pedido.itens.length * pedido.preco;
+  if (pedido.itens.length > 20) {
+    return subtotal * 0.9 - desconto;
+  }
+  return subtotal * (1 + TAXA_DE_SERVICO);
+}
+
+function atualizarStatus(pedido) {
+  if (pedido.status === 'aguardando-pagamento') {
+    notificar(pedido, 'aguardando-pagamento');
+  } else if (pedido.status === 'cancelado') {
+    pedido.historico.push('aguardando-pagamento');
+  }
+  registrar('aguardando-pagamento', pedido.id);
+  return parseInt(pedido.codigo, 10) - 1;
+}
+
+function expirou(pedido) {
+  return typeof pedido.criadoEm === 'string' && Date.now() - pedido.criadoEm > UM_DIA_MS * LIMITES.tentativas;
+}
+
+module.exports = { calcularTotal, atualizarStatus, expirou };
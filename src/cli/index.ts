@@ -2,11 +2,16 @@
 
 import { Command } from 'commander';
 import { Analyzer } from '../core/analyzer';
-import { createReporter, validateReporterFormat } from '../core/reporter';
+import { createReporter, validateReporterFormat, getAvailableFormats } from '../core/reporter';
 import { HTMLReporter } from '../core/html-reporter';
-import { ConfigManager } from '../config/config-manager';
+import { SarifReporter } from '../core/sarif-reporter';
+import { ConfigManager, PluginDetectorConfig } from '../config/config-manager';
+import { Baseline } from '../core/baseline';
+import { ChangeSet } from '../core/change-set';
+import { AnalysisCache } from '../core/analysis-cache';
 import { logger, LogLevel } from '../utils/logger';
 import { CLIOptions } from '../types/types';
+import { loadPlugins, registerPlugins, getDetectorInfo, LoadedPlugin } from '../detectors';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -32,12 +37,16 @@ program
   .description('Analisa arquivos de código em um diretório')
   .argument('<caminho>', 'caminho para analisar')
   .option('-l, --linguagem <tipo>', 'linguagem para analisar (javascript, typescript)')
-  .option('-f, --formato <tipo>', 'formato de saída (console, json, html)', 'console')
-  .option('-o, --output <arquivo>', 'arquivo de saída (apenas para HTML e JSON)')
+  .option('-f, --formato <tipo>', 'formato de saída (console, json, html, sarif)', 'console')
+  .option('-o, --output <arquivo>', 'arquivo de saída (apenas para HTML, JSON e SARIF)')
   .option('-v, --detalhado', 'exibir informações detalhadas e trechos de código')
   .option('-m, --max-problemas <numero>', 'máximo de problemas por arquivo para exibir')
   .option('--no-color', 'desabilitar saída colorida')
   .option('--config <caminho>', 'caminho para arquivo de configuração personalizado')
+  .option('--baseline <arquivo>', 'ocultar problemas registrados na baseline e falhar apenas com problemas novos')
+  .option('--criar-baseline <arquivo>', 'registrar os problemas atuais em um arquivo de baseline')
+  .option('--desde <ref>', 'analisar apenas arquivos alterados em relação a uma referência git')
+  .option('--apenas-linhas-alteradas', 'com --desde, manter apenas problemas em linhas alteradas')
   .action(async (targetPath: string, options: CLIOptions & { config?: string; output?: string }) => {
     const startTime = Date.now();
     
@@ -64,7 +73,25 @@ program
       const projectPath = options.config ? path.dirname(path.resolve(options.config)) : path.dirname(fullPath);
       
       const analyzer = new Analyzer({}, projectPath);
-      const config = analyzer.getRevisorConfig();
+      const config = await ConfigManager.loadConfig(projectPath);
+
+      if (options.baseline && options.criarBaseline) {
+        logger.error('Use --baseline ou --criar-baseline, não ambos');
+        process.exit(1);
+      }
+
+      if (options.baseline) {
+        analyzer.setBaseline(await Baseline.load(path.resolve(options.baseline)));
+      }
+
+      if (options.apenasLinhasAlteradas && !options.desde) {
+        logger.error('--apenas-linhas-alteradas requer --desde <ref>');
+        process.exit(1);
+      }
+
+      if (options.desde) {
+        analyzer.setChangeSet(await ChangeSet.fromGit(options.desde, fullPath, !!options.apenasLinhasAlteradas));
+      }
 
       const analysisOptions = {
         language: options.linguagem || config.analysis.languages[0] || 'javascript',
@@ -81,7 +108,7 @@ program
       const outputFormat = options.formato;
       if (!validateReporterFormat(outputFormat)) {
         logger.error('Formato não suportado', undefined, { formato: outputFormat });
-        console.error('Formatos suportados: console, json, html');
+        console.error('Formatos suportados:', getAvailableFormats().join(', '));
         process.exit(1);
       }
 
@@ -139,11 +166,23 @@ program
         await fs.promises.writeFile(options.output, jsonOutput, 'utf8');
         const relativePath = path.relative(process.cwd(), options.output);
         console.log(`📄 Relatório JSON gerado: ${relativePath}`);
+      } else if (outputFormat === 'sarif' && options.output) {
+        const sarifReporter = reporter as SarifReporter;
+        await sarifReporter.generateToFile(report, options.output);
+
+        const relativePath = path.relative(process.cwd(), options.output);
+        console.log(`📄 Relatório SARIF gerado: ${relativePath}`);
       } else {
         // Saída padrão (console ou stdout)
         reporter.generate(report);
       }
 
+      if (options.criarBaseline) {
+        const baseline = await Baseline.create(report, path.resolve(options.criarBaseline));
+        const relativePath = path.relative(process.cwd(), options.criarBaseline);
+        console.log(`📌 Baseline criada: ${relativePath} (${baseline.entries.length} problema${baseline.entries.length !== 1 ? 's' : ''})`);
+      }
+
       const duration = Date.now() - startTime;
       logger.info('Análise concluída com sucesso', {
         duration,
@@ -154,6 +193,10 @@ program
         outputFile: options.output
       });
 
+      if (options.criarBaseline) {
+        process.exit(0);
+      }
+
       process.exit(getExitCode(report.summary.overallScore, report.summary.totalIssues));
 
     } catch (error) {
@@ -193,7 +236,7 @@ program
 
       const projectPath = options.config ? path.dirname(path.resolve(options.config)) : path.dirname(fullPath);
       const analyzer = new Analyzer({}, projectPath);
-      const config = analyzer.getRevisorConfig();
+      const config = await ConfigManager.loadConfig(projectPath);
 
       const report = await analyzer.analyze(fullPath, {
         language: config.analysis.languages[0] || 'javascript',
@@ -260,16 +303,22 @@ program
       console.log('='.repeat(50));
       
       console.log('\n📋 Detectores:');
-      Object.entries(config.detectors).forEach(([name, detConfig]) => {
+      Object.entries(config.detectors).forEach(([name, detConfig]: [string, PluginDetectorConfig]) => {
         const status = detConfig.enabled ? '✅' : '❌';
         const displayName = name.charAt(0).toUpperCase() + name.slice(1);
         console.log(`  ${status} ${displayName}`);
         
-        if (detConfig.enabled && detConfig.thresholds) {
+        if (detConfig.enabled && typeof detConfig.thresholds === 'object' && detConfig.thresholds) {
           Object.entries(detConfig.thresholds).forEach(([key, value]) => {
             console.log(`     • ${key}: ${value}`);
           });
         }
+
+        if (detConfig.enabled && typeof detConfig.rules === 'object' && detConfig.rules) {
+          Object.entries(detConfig.rules).forEach(([key, value]) => {
+            console.log(`     • ${key}: ${value ? 'ativa' : 'desativada'}`);
+          });
+        }
       });
 
       console.log('\n📊 Saída:');
@@ -280,6 +329,7 @@ program
 
       console.log('\n⚡ Performance:');
       console.log(`  • Arquivos simultâneos: ${config.performance.maxConcurrentFiles}`);
+      console.log(`  • Workers: ${config.performance.workers === 0 ? 'automático' : config.performance.workers}`);
       console.log(`  • Cache ativo: ${config.performance.enableCaching ? 'Sim' : 'Não'}`);
       console.log(`  • Timeout: ${config.performance.timeoutMs}ms`);
 
@@ -297,10 +347,47 @@ program
     }
   });
 
+const cacheCommand = program
+  .command('cache')
+  .description('Gerencia o cache de análise em disco');
+
+cacheCommand
+  .command('limpar')
+  .description('Remove as entradas do cache de análise')
+  .option('-p, --path <caminho>', 'caminho do projeto para ler a configuração', process.cwd())
+  .action(async (options) => {
+    try {
+      const config = await ConfigManager.loadConfig(options.path);
+      const cacheDir = path.resolve(config.performance.cacheDir);
+      const removed = await AnalysisCache.clear(cacheDir);
+
+      if (removed === 0) {
+        console.log(`ℹ️  Nenhuma entrada de cache encontrada em ${path.relative(process.cwd(), cacheDir) || '.'}`);
+      } else {
+        console.log(`✅ Cache limpo: ${removed} entrada(s) removida(s) de ${path.relative(process.cwd(), cacheDir) || '.'}`);
+      }
+    } catch (error) {
+      console.error(`❌ Erro ao limpar cache: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
 program
   .command('info')
   .description('Exibe informações sobre linguagens e detectores suportados')
-  .action(() => {
+  .option('-p, --path <caminho>', 'caminho do projeto para carregar plugins', process.cwd())
+  .action(async (options) => {
+    let plugins: LoadedPlugin[];
+
+    try {
+      const config = await ConfigManager.loadConfig(options.path);
+      plugins = loadPlugins(config.plugins);
+      registerPlugins(plugins);
+    } catch (error) {
+      console.error(`❌ Erro ao carregar plugins: ${(error as Error).message}`);
+      process.exit(1);
+    }
+
     console.log('\n🔍 REVISOR DE CÓDIGO - INFORMAÇÕES');
     console.log('='.repeat(50));
     console.log('\n📋 Linguagens Suportadas:');
@@ -308,23 +395,49 @@ program
     console.log('  • TypeScript (.ts, .tsx)');
     
     console.log('\n🔧 Detectores Disponíveis:');
-    console.log('  🔄 Complexidade - Detecta alta complexidade ciclomática');
+    console.log('  🔄 Complexidade - Detecta alta complexidade ciclomática e cognitiva e aninhamento profundo');
+    console.log('  🔧 Manutenibilidade - Calcula métricas de Halstead e o índice de manutenibilidade');
     console.log('  🏷️  Nomenclatura - Verifica convenções de nomes');
     console.log('  📏 Tamanho - Identifica arquivos/funções grandes');
     console.log('  📋 Duplicação - Encontra código duplicado');
+    console.log('  ✨ Boas Práticas - Sinaliza debugger, console, ==, var e with');
+    console.log('  🧹 Código Não Usado - Aponta variáveis, parâmetros, imports e membros privados sem uso');
+    console.log('  🪦 Código Morto - Encontra código inalcançável, condições constantes ou repetidas e blocos vazios');
+    console.log('  ⏳ Async e Promises - Aponta promises soltas, async sem await e await em laço');
+    console.log('  🚨 Tratamento de Erros - Aponta catch vazio ou que só loga, throw de literais e erros relançados sem causa');
+    console.log('  🔒 Segurança - Sinaliza eval, HTML injetado, comandos de shell montados com strings e caminhos vindos do usuário');
+    console.log('  🔑 Segredos - Procura chaves, tokens e senhas escritos no código');
+    console.log('  🧷 Segurança de Tipos - Aponta any, casts forçados, ! e @ts-ignore sem explicação em TypeScript');
+    console.log('  ⚛️ React - Verifica regras dos hooks, efeitos sem dependências, componentes grandes e listas sem key');
+    console.log('  ♿ Acessibilidade - Aponta imagens sem alt, cliques sem teclado, links sem href e campos sem label em JSX');
+    console.log('  🔢 Valores Mágicos - Aponta números soltos e strings repetidas no arquivo ou no projeto');
+
+    if (plugins.length > 0) {
+      console.log('\n🔌 Detectores de Plugins:');
+      plugins.forEach(plugin => {
+        Object.keys(plugin.detectors).forEach(detectorName => {
+          const info = getDetectorInfo(detectorName)!;
+          console.log(`  • ${info.name} (${detectorName}, ${plugin.name}) - ${info.description}`);
+          console.log(`    Regras: ${info.rules.join(', ')}`);
+        });
+      });
+    }
     
     console.log('\n📊 Formatos de Saída:');
     console.log('  • console - Saída colorida no terminal (padrão)');
     console.log('  • json - Formato JSON para integração CI/CD');
     console.log('  • html - Relatório visual interativo');
+    console.log('  • sarif - SARIF 2.1.0 para ferramentas de code scanning');
     
     console.log('\n💡 Exemplos de Uso:');
     console.log('  revisor-codigo init                           # Criar configuração');
     console.log('  revisor-codigo analisar ./src                # Análise básica');
     console.log('  revisor-codigo analisar ./src --detalhado    # Com detalhes');
     console.log('  revisor-codigo analisar ./src --formato html -o relatorio.html');
+    console.log('  revisor-codigo analisar ./src --formato sarif -o results.sarif');
     console.log('  revisor-codigo relatorio ./src               # Relatório HTML dedicado');
     console.log('  revisor-codigo config                        # Ver configuração');
+    console.log('  revisor-codigo cache limpar                  # Limpar cache de análise');
     console.log('\n📚 Dica: Use o formato HTML para relatórios visuais profissionais!');
     console.log('');
   });
@@ -340,6 +453,7 @@ program
     console.log('  • Mantenha funções com complexidade ≤ 10');
     console.log('  • Divida funções grandes em funções menores');
     console.log('  • Use early returns para reduzir aninhamento');
+    console.log('  • Mantenha o índice de manutenibilidade das funções acima de 20');
     
     console.log('\n🏷️ NOMENCLATURA:');
     console.log('  • Use camelCase para variáveis e funções');
@@ -358,6 +472,32 @@ program
     console.log('  • Use módulos para compartilhar lógica comum');
     console.log('  • Considere padrões como Strategy ou Template Method');
     
+    console.log('\n✨ BOAS PRÁTICAS:');
+    console.log('  • Remova debugger e console.* antes do commit');
+    console.log('  • Use === e !== em vez de == e !=');
+    console.log('  • Prefira const e let a var e evite with');
+    console.log('  • Remova variáveis, parâmetros e imports sem uso; prefixe com "_" os que a assinatura exige');
+    console.log('  • Não deixe blocos ou funções vazios sem um comentário explicando');
+    console.log('  • Toda promise deve ser esperada, retornada ou ter .catch()');
+    console.log('  • Troque await em laço por Promise.all quando as iterações forem independentes');
+    console.log('  • Lance sempre instâncias de Error e preserve o erro original com { cause }');
+    console.log('  • Em TypeScript, prefira unknown e type guards a any, as any e !');
+    console.log('  • Em React, chame hooks sempre no topo do componente e dê uma key estável a cada item de lista');
+    console.log('  • Dê nome a números e strings que se repetem: uma constante explica o valor e evita divergências');
+
+    console.log('\n🔒 SEGURANÇA:');
+    console.log('  • Não use eval, new Function nem setTimeout/setInterval com string');
+    console.log('  • Prefira textContent a innerHTML e sanitize todo HTML que vier de fora');
+    console.log('  • Use execFile/spawn com argumentos em array em vez de exec com strings montadas');
+    console.log('  • Valide caminhos vindos do usuário antes de acessar arquivos');
+    console.log('  • Nunca commite chaves, tokens ou senhas; leia-os de variáveis de ambiente');
+    
+    console.log('\n♿ ACESSIBILIDADE:');
+    console.log('  • Dê alt a toda imagem (alt="" para as decorativas)');
+    console.log('  • Use <button> para ações e <a href> para navegação');
+    console.log('  • Associe cada campo de formulário a um <label>');
+    console.log('  • Evite tabIndex maior que zero');
+    
     console.log('\n💡 DICAS GERAIS:');
     console.log('  • Foque nos problemas críticos primeiro');
     console.log('  • Refatore gradualmente');
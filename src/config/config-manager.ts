@@ -2,9 +2,24 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { createLogger } from '../utils/logger';
 
+export interface PluginDetectorConfig {
+  enabled: boolean;
+  [option: string]: unknown;
+}
+
 export interface RevisorConfig {
   detectors: {
     complexity: {
+      enabled: boolean;
+      thresholds: {
+        function: number;
+        file: number;
+        cognitive: number;
+        nesting: number;
+        callbacks: number;
+      };
+    };
+    maintainability: {
       enabled: boolean;
       thresholds: {
         function: number;
@@ -42,9 +57,163 @@ export interface RevisorConfig {
         similarityThreshold: number;
       };
     };
+    bestPractices: {
+      enabled: boolean;
+      rules: {
+        debugger: boolean;
+        console: boolean;
+        looseEquality: boolean;
+        varDeclaration: boolean;
+        withStatement: boolean;
+      };
+    };
+    unused: {
+      enabled: boolean;
+      rules: {
+        variables: boolean;
+        parameters: boolean;
+        imports: boolean;
+        privateMembers: boolean;
+      };
+      ignorePattern: string;
+    };
+    deadCode: {
+      enabled: boolean;
+      rules: {
+        unreachable: boolean;
+        constantCondition: boolean;
+        emptyBlock: boolean;
+        emptyFunction: boolean;
+        duplicateCondition: boolean;
+      };
+    };
+    async: {
+      enabled: boolean;
+      rules: {
+        asyncWithoutAwait: boolean;
+        floatingPromise: boolean;
+        awaitInLoop: boolean;
+        promiseConstructor: boolean;
+        mixedThenAwait: boolean;
+      };
+    };
+    errorHandling: {
+      enabled: boolean;
+      thresholds: {
+        wrappedStatements: number;
+      };
+      rules: {
+        emptyCatch: boolean;
+        catchOnlyLogs: boolean;
+        throwLiteral: boolean;
+        catchParamIgnored: boolean;
+        catchParamShadowed: boolean;
+        rethrowWithoutCause: boolean;
+        tryWrapsFunction: boolean;
+      };
+    };
+    security: {
+      enabled: boolean;
+      rules: {
+        dynamicCode: boolean;
+        stringTimer: boolean;
+        domHtml: boolean;
+        reactHtml: boolean;
+        commandInjection: boolean;
+        fsUserInput: boolean;
+      };
+    };
+    secrets: {
+      enabled: boolean;
+      thresholds: {
+        minLength: number;
+        entropy: number;
+      };
+      rules: {
+        privateKey: boolean;
+        awsKey: boolean;
+        jwt: boolean;
+        serviceToken: boolean;
+        passwordAssignment: boolean;
+        highEntropy: boolean;
+      };
+      allowlist: {
+        paths: string[];
+        patterns: string[];
+      };
+    };
+    typeSafety: {
+      enabled: boolean;
+      thresholds: {
+        explicitAny: number;
+        asAny: number;
+        nonNullAssertion: number;
+        tsComment: number;
+        doubleCast: number;
+        missingReturnType: number;
+        bannedTypes: number;
+      };
+      rules: {
+        explicitAny: boolean;
+        asAny: boolean;
+        nonNullAssertion: boolean;
+        tsComment: boolean;
+        doubleCast: boolean;
+        missingReturnType: boolean;
+        bannedTypes: boolean;
+      };
+    };
+    react: {
+      enabled: boolean;
+      thresholds: {
+        jsxLines: number;
+        props: number;
+      };
+      rules: {
+        conditionalHook: boolean;
+        nestedHook: boolean;
+        hookOutsideComponent: boolean;
+        effectWithoutDeps: boolean;
+        largeComponent: boolean;
+        tooManyProps: boolean;
+        inlineListProps: boolean;
+        missingKey: boolean;
+      };
+    };
+    accessibility: {
+      enabled: boolean;
+      rules: {
+        imgAlt: boolean;
+        clickWithoutKeyboard: boolean;
+        anchorHref: boolean;
+        inputLabel: boolean;
+        positiveTabIndex: boolean;
+      };
+    };
+    magicValues: {
+      enabled: boolean;
+      thresholds: {
+        fileStrings: number;
+        projectStrings: number;
+        minStringLength: number;
+      };
+      rules: {
+        magicNumbers: boolean;
+        repeatedStrings: boolean;
+        projectRepeatedStrings: boolean;
+      };
+      allowlist: {
+        numbers: number[];
+        strings: string[];
+      };
+    };
+  } & {
+    // Detectores de plugins recebem a configuração sem validação de formato
+    [detectorName: string]: PluginDetectorConfig;
   };
+  plugins: string[];
   output: {
-    format: 'console' | 'json' | 'html';
+    format: 'console' | 'json' | 'html' | 'sarif';
     verbose: boolean;
     maxIssuesPerFile: number;
     showCodeSnippets: boolean;
@@ -52,6 +221,7 @@ export interface RevisorConfig {
   };
   performance: {
     maxConcurrentFiles: number;
+    workers: number;
     enableCaching: boolean;
     cacheDir: string;
     timeoutMs: number;
@@ -79,6 +249,16 @@ export class ConfigManager {
         enabled: true,
         thresholds: {
           function: 10,
+          file: 20,
+          cognitive: 15,
+          nesting: 4,
+          callbacks: 3
+        }
+      },
+      maintainability: {
+        enabled: true,
+        thresholds: {
+          function: 20,
           file: 20
         }
       },
@@ -112,8 +292,159 @@ export class ConfigManager {
           minTokens: 50,
           similarityThreshold: 0.85
         }
+      },
+      bestPractices: {
+        enabled: true,
+        rules: {
+          debugger: true,
+          console: true,
+          looseEquality: true,
+          varDeclaration: true,
+          withStatement: true
+        }
+      },
+      unused: {
+        enabled: true,
+        rules: {
+          variables: true,
+          parameters: true,
+          imports: true,
+          privateMembers: true
+        },
+        ignorePattern: '^_'
+      },
+      deadCode: {
+        enabled: true,
+        rules: {
+          unreachable: true,
+          constantCondition: true,
+          emptyBlock: true,
+          emptyFunction: true,
+          duplicateCondition: true
+        }
+      },
+      async: {
+        enabled: true,
+        rules: {
+          asyncWithoutAwait: true,
+          floatingPromise: true,
+          awaitInLoop: true,
+          promiseConstructor: true,
+          mixedThenAwait: true
+        }
+      },
+      errorHandling: {
+        enabled: true,
+        thresholds: {
+          wrappedStatements: 5
+        },
+        rules: {
+          emptyCatch: true,
+          catchOnlyLogs: true,
+          throwLiteral: true,
+          catchParamIgnored: true,
+          catchParamShadowed: true,
+          rethrowWithoutCause: true,
+          tryWrapsFunction: true
+        }
+      },
+      security: {
+        enabled: true,
+        rules: {
+          dynamicCode: true,
+          stringTimer: true,
+          domHtml: true,
+          reactHtml: true,
+          commandInjection: true,
+          fsUserInput: true
+        }
+      },
+      secrets: {
+        enabled: true,
+        thresholds: {
+          minLength: 20,
+          entropy: 4
+        },
+        rules: {
+          privateKey: true,
+          awsKey: true,
+          jwt: true,
+          serviceToken: true,
+          passwordAssignment: true,
+          highEntropy: true
+        },
+        allowlist: {
+          paths: [],
+          patterns: []
+        }
+      },
+      typeSafety: {
+        enabled: true,
+        thresholds: {
+          explicitAny: 0,
+          asAny: 0,
+          nonNullAssertion: 0,
+          tsComment: 0,
+          doubleCast: 0,
+          missingReturnType: 0,
+          bannedTypes: 0
+        },
+        rules: {
+          explicitAny: true,
+          asAny: true,
+          nonNullAssertion: true,
+          tsComment: true,
+          doubleCast: true,
+          missingReturnType: true,
+          bannedTypes: true
+        }
+      },
+      react: {
+        enabled: true,
+        thresholds: {
+          jsxLines: 100,
+          props: 8
+        },
+        rules: {
+          conditionalHook: true,
+          nestedHook: true,
+          hookOutsideComponent: true,
+          effectWithoutDeps: true,
+          largeComponent: true,
+          tooManyProps: true,
+          inlineListProps: true,
+          missingKey: true
+        }
+      },
+      accessibility: {
+        enabled: true,
+        rules: {
+          imgAlt: true,
+          clickWithoutKeyboard: true,
+          anchorHref: true,
+          inputLabel: true,
+          positiveTabIndex: true
+        }
+      },
+      magicValues: {
+        enabled: true,
+        thresholds: {
+          fileStrings: 3,
+          projectStrings: 10,
+          minStringLength: 3
+        },
+        rules: {
+          magicNumbers: true,
+          repeatedStrings: true,
+          projectRepeatedStrings: true
+        },
+        allowlist: {
+          numbers: [0, 1, -1, 2],
+          strings: []
+        }
       }
     },
+    plugins: [],
     output: {
       format: 'console',
       verbose: false,
@@ -123,6 +454,7 @@ export class ConfigManager {
     },
     performance: {
       maxConcurrentFiles: 10,
+      workers: 0,
       enableCaching: true,
       cacheDir: '.revisor-cache',
       timeoutMs: 30000
@@ -186,14 +518,19 @@ export class ConfigManager {
     }
   }
 
-  static validateConfig(config: any): RevisorConfig {
-    const validatedConfig = { ...this.DEFAULT_CONFIG };
+  static validateConfig(config: any, baseDir: string = process.cwd()): RevisorConfig {
+    // Cópia profunda: os merges abaixo alteram objetos aninhados
+    const validatedConfig: RevisorConfig = JSON.parse(JSON.stringify(this.DEFAULT_CONFIG));
 
     try {
       if (config.detectors) {
         this.mergeDetectorConfig(validatedConfig.detectors, config.detectors);
       }
 
+      if (config.plugins !== undefined) {
+        validatedConfig.plugins = this.resolvePlugins(config.plugins, baseDir);
+      }
+
       if (config.output) {
         this.mergeOutputConfig(validatedConfig.output, config.output);
       }
@@ -234,7 +571,7 @@ export class ConfigManager {
       const content = await fs.promises.readFile(configPath, 'utf8');
       const rawConfig = JSON.parse(content);
       
-      return this.validateConfig(rawConfig);
+      return this.validateConfig(rawConfig, path.dirname(configPath));
     } catch (error) {
       throw new Error(`Erro ao processar ${configPath}: ${(error as Error).message}`);
     }
@@ -255,7 +592,20 @@ export class ConfigManager {
         enabled: source.complexity.enabled ?? target.complexity.enabled,
         thresholds: {
           function: this.validateNumber(source.complexity.thresholds?.function, 1, 50, target.complexity.thresholds.function),
-          file: this.validateNumber(source.complexity.thresholds?.file, 1, 100, target.complexity.thresholds.file)
+          file: this.validateNumber(source.complexity.thresholds?.file, 1, 100, target.complexity.thresholds.file),
+          cognitive: this.validateNumber(source.complexity.thresholds?.cognitive, 1, 100, target.complexity.thresholds.cognitive),
+          nesting: this.validateNumber(source.complexity.thresholds?.nesting, 1, 20, target.complexity.thresholds.nesting),
+          callbacks: this.validateNumber(source.complexity.thresholds?.callbacks, 1, 20, target.complexity.thresholds.callbacks)
+        }
+      };
+    }
+
+    if (source.maintainability) {
+      target.maintainability = {
+        enabled: source.maintainability.enabled ?? target.maintainability.enabled,
+        thresholds: {
+          function: this.validateNumber(source.maintainability.thresholds?.function, 0, 100, target.maintainability.thresholds.function),
+          file: this.validateNumber(source.maintainability.thresholds?.file, 0, 100, target.maintainability.thresholds.file)
         }
       };
     }
@@ -299,10 +649,224 @@ export class ConfigManager {
         }
       };
     }
+
+    if (source.bestPractices) {
+      target.bestPractices = {
+        enabled: source.bestPractices.enabled ?? target.bestPractices.enabled,
+        rules: {
+          debugger: source.bestPractices.rules?.debugger ?? target.bestPractices.rules.debugger,
+          console: source.bestPractices.rules?.console ?? target.bestPractices.rules.console,
+          looseEquality: source.bestPractices.rules?.looseEquality ?? target.bestPractices.rules.looseEquality,
+          varDeclaration: source.bestPractices.rules?.varDeclaration ?? target.bestPractices.rules.varDeclaration,
+          withStatement: source.bestPractices.rules?.withStatement ?? target.bestPractices.rules.withStatement
+        }
+      };
+    }
+
+    if (source.unused) {
+      target.unused = {
+        enabled: source.unused.enabled ?? target.unused.enabled,
+        rules: {
+          variables: source.unused.rules?.variables ?? target.unused.rules.variables,
+          parameters: source.unused.rules?.parameters ?? target.unused.rules.parameters,
+          imports: source.unused.rules?.imports ?? target.unused.rules.imports,
+          privateMembers: source.unused.rules?.privateMembers ?? target.unused.rules.privateMembers
+        },
+        ignorePattern: this.validatePattern(source.unused.ignorePattern, target.unused.ignorePattern)
+      };
+    }
+
+    if (source.deadCode) {
+      target.deadCode = {
+        enabled: source.deadCode.enabled ?? target.deadCode.enabled,
+        rules: {
+          unreachable: source.deadCode.rules?.unreachable ?? target.deadCode.rules.unreachable,
+          constantCondition: source.deadCode.rules?.constantCondition ?? target.deadCode.rules.constantCondition,
+          emptyBlock: source.deadCode.rules?.emptyBlock ?? target.deadCode.rules.emptyBlock,
+          emptyFunction: source.deadCode.rules?.emptyFunction ?? target.deadCode.rules.emptyFunction,
+          duplicateCondition: source.deadCode.rules?.duplicateCondition ?? target.deadCode.rules.duplicateCondition
+        }
+      };
+    }
+
+    if (source.async) {
+      target.async = {
+        enabled: source.async.enabled ?? target.async.enabled,
+        rules: {
+          asyncWithoutAwait: source.async.rules?.asyncWithoutAwait ?? target.async.rules.asyncWithoutAwait,
+          floatingPromise: source.async.rules?.floatingPromise ?? target.async.rules.floatingPromise,
+          awaitInLoop: source.async.rules?.awaitInLoop ?? target.async.rules.awaitInLoop,
+          promiseConstructor: source.async.rules?.promiseConstructor ?? target.async.rules.promiseConstructor,
+          mixedThenAwait: source.async.rules?.mixedThenAwait ?? target.async.rules.mixedThenAwait
+        }
+      };
+    }
+
+    if (source.errorHandling) {
+      const rules = target.errorHandling.rules;
+      target.errorHandling = {
+        enabled: source.errorHandling.enabled ?? target.errorHandling.enabled,
+        thresholds: {
+          wrappedStatements: this.validateNumber(source.errorHandling.thresholds?.wrappedStatements, 1, 100, target.errorHandling.thresholds.wrappedStatements)
+        },
+        rules: {
+          emptyCatch: source.errorHandling.rules?.emptyCatch ?? rules.emptyCatch,
+          catchOnlyLogs: source.errorHandling.rules?.catchOnlyLogs ?? rules.catchOnlyLogs,
+          throwLiteral: source.errorHandling.rules?.throwLiteral ?? rules.throwLiteral,
+          catchParamIgnored: source.errorHandling.rules?.catchParamIgnored ?? rules.catchParamIgnored,
+          catchParamShadowed: source.errorHandling.rules?.catchParamShadowed ?? rules.catchParamShadowed,
+          rethrowWithoutCause: source.errorHandling.rules?.rethrowWithoutCause ?? rules.rethrowWithoutCause,
+          tryWrapsFunction: source.errorHandling.rules?.tryWrapsFunction ?? rules.tryWrapsFunction
+        }
+      };
+    }
+
+    // A regra de eval ficava em bestPractices; configurações antigas continuam valendo
+    const legacyDynamicCode = source.bestPractices?.rules?.dynamicCode;
+    if (source.security || legacyDynamicCode !== undefined) {
+      const rules = target.security.rules;
+      target.security = {
+        enabled: source.security?.enabled ?? target.security.enabled,
+        rules: {
+          dynamicCode: source.security?.rules?.dynamicCode ?? legacyDynamicCode ?? rules.dynamicCode,
+          stringTimer: source.security?.rules?.stringTimer ?? rules.stringTimer,
+          domHtml: source.security?.rules?.domHtml ?? rules.domHtml,
+          reactHtml: source.security?.rules?.reactHtml ?? rules.reactHtml,
+          commandInjection: source.security?.rules?.commandInjection ?? rules.commandInjection,
+          fsUserInput: source.security?.rules?.fsUserInput ?? rules.fsUserInput
+        }
+      };
+    }
+
+    if (source.secrets) {
+      const current = target.secrets;
+      target.secrets = {
+        enabled: source.secrets.enabled ?? current.enabled,
+        thresholds: {
+          minLength: this.validateNumber(source.secrets.thresholds?.minLength, 8, 200, current.thresholds.minLength),
+          entropy: this.validateNumber(source.secrets.thresholds?.entropy, 1, 6, current.thresholds.entropy)
+        },
+        rules: {
+          privateKey: source.secrets.rules?.privateKey ?? current.rules.privateKey,
+          awsKey: source.secrets.rules?.awsKey ?? current.rules.awsKey,
+          jwt: source.secrets.rules?.jwt ?? current.rules.jwt,
+          serviceToken: source.secrets.rules?.serviceToken ?? current.rules.serviceToken,
+          passwordAssignment: source.secrets.rules?.passwordAssignment ?? current.rules.passwordAssignment,
+          highEntropy: source.secrets.rules?.highEntropy ?? current.rules.highEntropy
+        },
+        allowlist: {
+          paths: this.validateStringList(source.secrets.allowlist?.paths, current.allowlist.paths),
+          patterns: this.validateStringList(source.secrets.allowlist?.patterns, current.allowlist.patterns)
+            .filter(pattern => this.validatePattern(pattern, '') === pattern)
+        }
+      };
+    }
+
+    if (source.typeSafety) {
+      const current = target.typeSafety;
+      target.typeSafety = {
+        enabled: source.typeSafety.enabled ?? current.enabled,
+        thresholds: {
+          explicitAny: this.validateNumber(source.typeSafety.thresholds?.explicitAny, 0, 1000, current.thresholds.explicitAny),
+          asAny: this.validateNumber(source.typeSafety.thresholds?.asAny, 0, 1000, current.thresholds.asAny),
+          nonNullAssertion: this.validateNumber(source.typeSafety.thresholds?.nonNullAssertion, 0, 1000, current.thresholds.nonNullAssertion),
+          tsComment: this.validateNumber(source.typeSafety.thresholds?.tsComment, 0, 1000, current.thresholds.tsComment),
+          doubleCast: this.validateNumber(source.typeSafety.thresholds?.doubleCast, 0, 1000, current.thresholds.doubleCast),
+          missingReturnType: this.validateNumber(source.typeSafety.thresholds?.missingReturnType, 0, 1000, current.thresholds.missingReturnType),
+          bannedTypes: this.validateNumber(source.typeSafety.thresholds?.bannedTypes, 0, 1000, current.thresholds.bannedTypes)
+        },
+        rules: {
+          explicitAny: source.typeSafety.rules?.explicitAny ?? current.rules.explicitAny,
+          asAny: source.typeSafety.rules?.asAny ?? current.rules.asAny,
+          nonNullAssertion: source.typeSafety.rules?.nonNullAssertion ?? current.rules.nonNullAssertion,
+          tsComment: source.typeSafety.rules?.tsComment ?? current.rules.tsComment,
+          doubleCast: source.typeSafety.rules?.doubleCast ?? current.rules.doubleCast,
+          missingReturnType: source.typeSafety.rules?.missingReturnType ?? current.rules.missingReturnType,
+          bannedTypes: source.typeSafety.rules?.bannedTypes ?? current.rules.bannedTypes
+        }
+      };
+    }
+
+    if (source.react) {
+      const current = target.react;
+      target.react = {
+        enabled: source.react.enabled ?? current.enabled,
+        thresholds: {
+          jsxLines: this.validateNumber(source.react.thresholds?.jsxLines, 10, 1000, current.thresholds.jsxLines),
+          props: this.validateNumber(source.react.thresholds?.props, 1, 50, current.thresholds.props)
+        },
+        rules: {
+          conditionalHook: source.react.rules?.conditionalHook ?? current.rules.conditionalHook,
+          nestedHook: source.react.rules?.nestedHook ?? current.rules.nestedHook,
+          hookOutsideComponent: source.react.rules?.hookOutsideComponent ?? current.rules.hookOutsideComponent,
+          effectWithoutDeps: source.react.rules?.effectWithoutDeps ?? current.rules.effectWithoutDeps,
+          largeComponent: source.react.rules?.largeComponent ?? current.rules.largeComponent,
+          tooManyProps: source.react.rules?.tooManyProps ?? current.rules.tooManyProps,
+          inlineListProps: source.react.rules?.inlineListProps ?? current.rules.inlineListProps,
+          missingKey: source.react.rules?.missingKey ?? current.rules.missingKey
+        }
+      };
+    }
+
+    if (source.accessibility) {
+      const current = target.accessibility;
+      target.accessibility = {
+        enabled: source.accessibility.enabled ?? current.enabled,
+        rules: {
+          imgAlt: source.accessibility.rules?.imgAlt ?? current.rules.imgAlt,
+          clickWithoutKeyboard: source.accessibility.rules?.clickWithoutKeyboard ?? current.rules.clickWithoutKeyboard,
+          anchorHref: source.accessibility.rules?.anchorHref ?? current.rules.anchorHref,
+          inputLabel: source.accessibility.rules?.inputLabel ?? current.rules.inputLabel,
+          positiveTabIndex: source.accessibility.rules?.positiveTabIndex ?? current.rules.positiveTabIndex
+        }
+      };
+    }
+
+    if (source.magicValues) {
+      const current = target.magicValues;
+      target.magicValues = {
+        enabled: source.magicValues.enabled ?? current.enabled,
+        thresholds: {
+          fileStrings: this.validateNumber(source.magicValues.thresholds?.fileStrings, 1, 100, current.thresholds.fileStrings),
+          projectStrings: this.validateNumber(source.magicValues.thresholds?.projectStrings, 1, 1000, current.thresholds.projectStrings),
+          minStringLength: this.validateNumber(source.magicValues.thresholds?.minStringLength, 1, 100, current.thresholds.minStringLength)
+        },
+        rules: {
+          magicNumbers: source.magicValues.rules?.magicNumbers ?? current.rules.magicNumbers,
+          repeatedStrings: source.magicValues.rules?.repeatedStrings ?? current.rules.repeatedStrings,
+          projectRepeatedStrings: source.magicValues.rules?.projectRepeatedStrings ?? current.rules.projectRepeatedStrings
+        },
+        allowlist: {
+          numbers: this.validateNumberList(source.magicValues.allowlist?.numbers, current.allowlist.numbers),
+          strings: this.validateStringList(source.magicValues.allowlist?.strings, current.allowlist.strings)
+        }
+      };
+    }
+
+    Object.entries(source).forEach(([name, detectorConfig]: [string, any]) => {
+      if (name in target || !detectorConfig || typeof detectorConfig !== 'object') return;
+
+      target[name] = { ...detectorConfig, enabled: detectorConfig.enabled ?? true };
+    });
+  }
+
+  /**
+   * Caminhos locais são resolvidos a partir do diretório do arquivo de
+   * configuração; nomes de pacote seguem como estão para o carregador.
+   */
+  private static resolvePlugins(source: any, baseDir: string): string[] {
+    if (!Array.isArray(source) || source.some(entry => typeof entry !== 'string' || entry.trim() === '')) {
+      throw new Error('"plugins" deve ser uma lista de caminhos ou nomes de pacote');
+    }
+
+    return source.map((entry: string) => {
+      const isLocalPath = entry.startsWith('.') || path.isAbsolute(entry);
+      return isLocalPath ? path.resolve(baseDir, entry) : entry;
+    });
   }
 
   private static mergeOutputConfig(target: RevisorConfig['output'], source: any): void {
-    target.format = ['console', 'json', 'html'].includes(source.format) ? source.format : target.format;
+    target.format = ['console', 'json', 'html', 'sarif'].includes(source.format) ? source.format : target.format;
     target.verbose = typeof source.verbose === 'boolean' ? source.verbose : target.verbose;
     target.maxIssuesPerFile = this.validateNumber(source.maxIssuesPerFile, 1, 100, target.maxIssuesPerFile);
     target.showCodeSnippets = typeof source.showCodeSnippets === 'boolean' ? source.showCodeSnippets : target.showCodeSnippets;
@@ -311,6 +875,7 @@ export class ConfigManager {
 
   private static mergePerformanceConfig(target: RevisorConfig['performance'], source: any): void {
     target.maxConcurrentFiles = this.validateNumber(source.maxConcurrentFiles, 1, 50, target.maxConcurrentFiles);
+    target.workers = this.validateNumber(source.workers, 0, 64, target.workers);
     target.enableCaching = typeof source.enableCaching === 'boolean' ? source.enableCaching : target.enableCaching;
     target.cacheDir = typeof source.cacheDir === 'string' ? source.cacheDir : target.cacheDir;
     target.timeoutMs = this.validateNumber(source.timeoutMs, 1000, 300000, target.timeoutMs);
@@ -334,6 +899,27 @@ export class ConfigManager {
     return value;
   }
 
+  private static validateStringList(value: any, defaultValue: string[]): string[] {
+    if (!Array.isArray(value)) return defaultValue;
+    return value.filter(item => typeof item === 'string' && item.length > 0);
+  }
+
+  private static validateNumberList(value: any, defaultValue: number[]): number[] {
+    if (!Array.isArray(value)) return defaultValue;
+    return value.filter(item => typeof item === 'number' && Number.isFinite(item));
+  }
+
+  private static validatePattern(value: any, defaultValue: string): string {
+    if (typeof value !== 'string') return defaultValue;
+
+    try {
+      new RegExp(value);
+      return value;
+    } catch {
+      return defaultValue;
+    }
+  }
+
   static getConfigSchema(): object {
     return {
       $schema: "http://json-schema.org/draft-07/schema#",
@@ -351,7 +937,23 @@ export class ConfigManager {
                   type: "object",
                   properties: {
                     function: { type: "number", minimum: 1, maximum: 50 },
-                    file: { type: "number", minimum: 1, maximum: 100 }
+                    file: { type: "number", minimum: 1, maximum: 100 },
+                    cognitive: { type: "number", minimum: 1, maximum: 100 },
+                    nesting: { type: "number", minimum: 1, maximum: 20 },
+                    callbacks: { type: "number", minimum: 1, maximum: 20 }
+                  }
+                }
+              }
+            },
+            maintainability: {
+              type: "object",
+              properties: {
+                enabled: { type: "boolean" },
+                thresholds: {
+                  type: "object",
+                  properties: {
+                    function: { type: "number", minimum: 0, maximum: 100 },
+                    file: { type: "number", minimum: 0, maximum: 100 }
                   }
                 }
               }
@@ -0,0 +1,114 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocalFileAnalysis } from './source-analyzer';
+import { createLogger } from '../utils/logger';
+import { getToolVersion } from '../utils/tool-version';
+
+interface CacheRecord {
+  key: string;
+  analysis: LocalFileAnalysis;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+export class AnalysisCache {
+  // A versão do package.json invalida o cache quando a lógica dos detectores muda sem mudar o formato
+  private static readonly TOOL_VERSION = getToolVersion();
+  private static readonly FORMAT_VERSION = 5;
+  /** Nome das entradas: sha1 do caminho absoluto do arquivo analisado. */
+  private static readonly ENTRY_NAME = /^[0-9a-f]{40}\.json$/;
+
+  private cacheLogger = createLogger('AnalysisCache');
+  private configHash: string;
+  private stats: CacheStats = { hits: 0, misses: 0, writes: 0 };
+  private directoryReady = false;
+
+  constructor(private cacheDir: string, keyOptions: unknown) {
+    this.configHash = AnalysisCache.hash(JSON.stringify(keyOptions ?? {}));
+  }
+
+  createKey(content: string): string {
+    return AnalysisCache.hash([
+      AnalysisCache.TOOL_VERSION,
+      AnalysisCache.FORMAT_VERSION,
+      this.configHash,
+      AnalysisCache.hash(content)
+    ].join('|'));
+  }
+
+  async get(filePath: string, key: string): Promise<LocalFileAnalysis | null> {
+    try {
+      const content = await fs.promises.readFile(this.getEntryPath(filePath), 'utf8');
+      const record: CacheRecord = JSON.parse(content);
+
+      if (record.key === key) {
+        this.stats.hits++;
+        return record.analysis;
+      }
+    } catch {
+      // Entrada ausente ou corrompida conta como miss
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  async set(filePath: string, key: string, analysis: LocalFileAnalysis): Promise<void> {
+    try {
+      if (!this.directoryReady) {
+        await fs.promises.mkdir(this.cacheDir, { recursive: true });
+        this.directoryReady = true;
+      }
+
+      const record: CacheRecord = { key, analysis };
+      await fs.promises.writeFile(this.getEntryPath(filePath), JSON.stringify(record), 'utf8');
+      this.stats.writes++;
+    } catch (error) {
+      this.cacheLogger.warn('Falha ao gravar entrada de cache', {
+        file: path.relative(process.cwd(), filePath),
+        error: (error as Error).message
+      });
+    }
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  static async clear(cacheDir: string): Promise<number> {
+    let entries: string[];
+
+    try {
+      entries = await fs.promises.readdir(cacheDir);
+    } catch {
+      return 0;
+    }
+
+    // Só apaga o que o próprio cache gravou: cacheDir pode apontar para um diretório do projeto
+    const cacheFiles = entries.filter(entry => AnalysisCache.ENTRY_NAME.test(entry));
+    await Promise.all(cacheFiles.map(entry => fs.promises.unlink(path.join(cacheDir, entry))));
+
+    if (cacheFiles.length > 0 && entries.length === cacheFiles.length) {
+      await fs.promises.rmdir(cacheDir).catch(() => undefined);
+    }
+
+    return cacheFiles.length;
+  }
+
+  private getEntryPath(filePath: string): string {
+    return path.join(this.cacheDir, `${AnalysisCache.hash(path.resolve(filePath))}.json`);
+  }
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha1').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,40 @@
+import { parentPort, workerData } from 'worker_threads';
+import { Parser } from './parser';
+import { SourceAnalyzer, AnalysisTimeoutError } from './source-analyzer';
+import { AnalysisTask, AnalysisWorkerData, AnalysisWorkerResponse } from './worker-pool';
+import { createDetectorsForLanguage, registerPlugins, loadPlugins } from '../detectors';
+import { Fingerprint } from '../utils/fingerprint';
+import { logger, LogLevel } from '../utils/logger';
+
+const data = workerData as AnalysisWorkerData;
+
+// Workers só repetem avisos e erros, a não ser em modo debug
+logger.setLevel(data.logLevel === LogLevel.DEBUG ? LogLevel.DEBUG : Math.min(data.logLevel, LogLevel.WARN));
+
+Fingerprint.setRoot(data.projectRoot);
+registerPlugins(loadPlugins(data.plugins));
+
+const sourceAnalyzer = new SourceAnalyzer(
+  new Parser(data.parserOptions),
+  createDetectorsForLanguage(data.language, data.detectorConfig)
+);
+
+parentPort!.on('message', (task: AnalysisTask) => {
+  let response: AnalysisWorkerResponse;
+
+  try {
+    response = {
+      id: task.id,
+      result: sourceAnalyzer.analyze(task.filePath, task.content, {
+        blocksOnly: task.blocksOnly,
+        timeoutMs: task.timeoutMs
+      })
+    };
+  } catch (error) {
+    response = error instanceof AnalysisTimeoutError
+      ? { id: task.id, error: error.message, timedOut: true, stage: error.stage }
+      : { id: task.id, error: (error as Error).message };
+  }
+
+  parentPort!.postMessage(response);
+});
@@ -1,13 +1,42 @@
 import { Parser } from './parser';
-import { Report, ReportBuilder, FileAnalysis, AnalysisOptions } from '../models/report';
+import { Report, ReportBuilder, FileAnalysis, AnalysisOptions, SkippedFile } from '../models/report';
 import { Issue } from '../models/issue';
-import { createDetectorsForLanguage } from '../detectors';
+import {
+  createDetectorsForLanguage,
+  registerPlugins,
+  loadPlugins,
+  BaseDetector,
+  DuplicationDetector,
+  MagicValuesDetector,
+  SecretMask
+} from '../detectors';
+import { SuppressionFilter } from './suppression';
+import { Baseline } from './baseline';
+import { ChangeSet } from './change-set';
+import { AnalysisCache } from './analysis-cache';
+import {
+  SourceAnalyzer,
+  SourceAnalysis,
+  LocalFileAnalysis,
+  DetectorTimings,
+  AnalysisTimeoutError
+} from './source-analyzer';
+import { WorkerPool } from './worker-pool';
+import { ParsedFile } from '../detectors/base/detector';
 import { ConfigManager, RevisorConfig } from '../config/config-manager';
+import { Fingerprint } from '../utils/fingerprint';
+import { FileUtils } from '../utils/file-utils';
 import { logger, createLogger } from '../utils/logger';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as glob from 'glob';
 
+/** Detectores que cruzam dados entre arquivos na fase de consolidação. */
+interface CrossFileDetectors {
+  duplication?: DuplicationDetector;
+  magicValues?: MagicValuesDetector;
+}
+
 export interface AnalyzerConfig {
   parser?: {
     sourceType?: 'module' | 'script';
@@ -26,10 +55,20 @@ export interface AnalyzerConfig {
   };
 }
 
+interface SourceFileResult {
+  filePath: string;
+  content: string;
+  analysis: LocalFileAnalysis;
+}
+
 export class Analyzer {
   private parser: Parser;
   private config: AnalyzerConfig;
   private revisorConfig!: RevisorConfig;
+  private baseline: Baseline | null = null;
+  private changeSet: ChangeSet | null = null;
+  private cache: AnalysisCache | null = null;
+  private detectorTimings: DetectorTimings = {};
   private analyzerLogger = createLogger('Analyzer');
 
   constructor(config: AnalyzerConfig = {}, projectPath?: string) {
@@ -105,6 +144,8 @@ export class Analyzer {
     
     try {
       await this.loadRevisorConfig(path.dirname(targetPath));
+      const plugins = loadPlugins(this.revisorConfig.plugins);
+      registerPlugins(plugins);
 
       const analysisOptions: AnalysisOptions = {
         language: options?.language || 'javascript',
@@ -119,8 +160,31 @@ export class Analyzer {
       });
       
       this.validatePath(targetPath);
+      Fingerprint.setRoot(FileUtils.findProjectRoot(targetPath));
+
+      this.cache = this.revisorConfig.performance.enableCaching
+        ? new AnalysisCache(path.resolve(this.revisorConfig.performance.cacheDir), {
+            detectors: this.revisorConfig.detectors,
+            plugins: plugins.map(plugin => ({ specifier: plugin.specifier, contentHash: plugin.contentHash })),
+            parser: this.parser.getOptions(),
+            // Fingerprints guardados no cache são relativos à raiz do projeto
+            root: Fingerprint.getRoot()
+          })
+        : null;
       
-      const filePaths = await this.getFilesToAnalyze(targetPath, analysisOptions);
+      const allFilePaths = await this.getFilesToAnalyze(targetPath, analysisOptions);
+      const filePaths = this.changeSet
+        ? allFilePaths.filter(filePath => this.changeSet!.hasFile(filePath))
+        : allFilePaths;
+
+      if (this.changeSet) {
+        this.analyzerLogger.info('Análise limitada a arquivos alterados', {
+          ref: this.changeSet.ref,
+          changed: filePaths.length,
+          total: allFilePaths.length,
+          onlyChangedLines: this.changeSet.onlyChangedLines
+        });
+      }
       
       if (filePaths.length === 0) {
         this.analyzerLogger.warn('Nenhum arquivo encontrado para análise');
@@ -147,47 +211,83 @@ export class Analyzer {
           .map(([name]) => name)
       });
 
-      const reportBuilder = ReportBuilder.create().withOptions(analysisOptions);
-      const analysisPromises = filePaths.map(filePath => 
-        this.analyzeFile(filePath, detectors)
+      const crossFileDetectors = this.findCrossFileDetectors(detectors);
+      const unchangedFiles = this.changeSet && (crossFileDetectors.duplication || crossFileDetectors.magicValues)
+        ? allFilePaths.filter(filePath => !this.changeSet!.hasFile(filePath))
+        : [];
+
+      const sourceAnalyzer = new SourceAnalyzer(this.parser, detectors);
+      const pool = WorkerPool.create(
+        this.revisorConfig.performance.workers,
+        filePaths.length + unchangedFiles.length,
+        {
+          language: analysisOptions.language,
+          detectorConfig: this.revisorConfig.detectors,
+          plugins: this.revisorConfig.plugins,
+          parserOptions: this.parser.getOptions(),
+          projectRoot: Fingerprint.getRoot(),
+          logLevel: logger.getLevel()
+        }
       );
 
-      const batchSize = this.config.performance?.maxConcurrentFiles || 10;
+      const skippedFiles: SkippedFile[] = [];
+      let unchangedResults: Array<SourceFileResult | null>;
+      let localResults: Array<SourceFileResult | null>;
+      this.detectorTimings = {};
+
+      try {
+        unchangedResults = await this.collectLocalAnalyses(unchangedFiles, sourceAnalyzer, pool, null);
+        localResults = await this.collectLocalAnalyses(filePaths, sourceAnalyzer, pool, skippedFiles);
+      } finally {
+        await pool?.close();
+      }
+
+      this.logDetectorTimings();
+
+      // Consolidação na thread principal, na ordem dos arquivos, para que o
+      // índice de duplicação evolua exatamente como numa execução sequencial
+      this.indexUnchangedFiles(unchangedResults, crossFileDetectors);
+      this.indexProjectStrings(localResults, crossFileDetectors);
+
+      const reportBuilder = ReportBuilder.create().withOptions(analysisOptions);
       const fileAnalyses: FileAnalysis[] = [];
 
-      for (let i = 0; i < analysisPromises.length; i += batchSize) {
-        const batch = analysisPromises.slice(i, i + batchSize);
-        const batchResults = await Promise.allSettled(batch);
-        
-        batchResults.forEach((result, index) => {
-          const actualIndex = i + index;
-          if (result.status === 'fulfilled' && result.value) {
-            fileAnalyses.push(result.value);
-            if ((actualIndex + 1) % 10 === 0 || actualIndex === filePaths.length - 1) {
-              this.analyzerLogger.debug('Progresso da análise', { 
-                analyzed: actualIndex + 1, 
-                total: filePaths.length,
-                percentage: Math.round(((actualIndex + 1) / filePaths.length) * 100)
-              });
-            }
-          } else {
-            this.analyzerLogger.error('Falha ao analisar arquivo', 
-              result.status === 'rejected' ? result.reason : new Error('Erro desconhecido'),
-              { filePath: filePaths[actualIndex] }
-            );
-          }
+      localResults.forEach(result => {
+        const analysis = result ? this.consolidateFile(result, crossFileDetectors) : null;
+        if (analysis) {
+          fileAnalyses.push(analysis);
+        }
+      });
+
+      fileAnalyses.forEach(analysis => reportBuilder.addFile(analysis));
+      skippedFiles.forEach(skippedFile => reportBuilder.addSkippedFile(skippedFile));
+
+      if (this.baseline) {
+        const baselineSummary = this.baseline.getSummary();
+        reportBuilder.withBaseline(baselineSummary);
+        this.analyzerLogger.info('Baseline aplicada', {
+          knownIssues: baselineSummary.knownIssues,
+          newIssues: baselineSummary.newIssues,
+          fixedIssues: baselineSummary.fixedIssues.length
         });
       }
 
-      fileAnalyses.forEach(analysis => reportBuilder.addFile(analysis));
       const report = reportBuilder.build();
 
+      if (this.cache) {
+        this.analyzerLogger.debug('Estatísticas do cache', {
+          cacheDir: path.relative(process.cwd(), this.cache.getCacheDir()),
+          ...this.cache.getStats()
+        });
+      }
+
       const duration = Date.now() - startTime;
       this.analyzerLogger.info('Análise concluída', {
         duration,
         score: report.summary.overallScore,
         issues: report.summary.totalIssues,
         files: report.summary.totalFiles,
+        skippedFiles: report.skippedFiles.length,
         averageScore: Math.round(fileAnalyses.reduce((sum, f) => sum + f.score, 0) / fileAnalyses.length || 0),
         criticalIssues: report.topIssues.filter(i => i.severity === 'critical').length
       });
@@ -291,31 +391,178 @@ export class Analyzer {
     }
   }
 
-  private async analyzeFile(filePath: string, detectors: any[]): Promise<FileAnalysis | null> {
-    try {
-      const parsedFile = await this.parser.parseFile(filePath);
-      const allIssues: Issue[] = [];
-      
-      for (const detector of detectors) {
-        try {
-          const issues = detector.detect(parsedFile);
-          allIssues.push(...issues);
-        } catch (error) {
-          this.analyzerLogger.warn('Detector falhou', { 
-            detector: detector.getName(), 
-            file: path.relative(process.cwd(), filePath),
-            error: (error as Error).message
-          });
+  /**
+   * Fase paralelizável: obtém a análise local de cada arquivo, do cache, do
+   * pool de workers ou da thread principal. A ordem do resultado segue a de
+   * `filePaths`; arquivos que falharam ficam como null e vão para
+   * `skippedFiles`. Sem essa lista, só os blocos de duplicação e as strings são extraídos.
+   */
+  private async collectLocalAnalyses(
+    filePaths: string[],
+    sourceAnalyzer: SourceAnalyzer,
+    pool: WorkerPool | null,
+    skippedFiles: SkippedFile[] | null
+  ): Promise<Array<SourceFileResult | null>> {
+    const blocksOnly = skippedFiles === null;
+    const batchSize = Math.max(this.config.performance?.maxConcurrentFiles || 10, pool?.size ?? 0);
+    const results: Array<SourceFileResult | null> = [];
+
+    for (let i = 0; i < filePaths.length; i += batchSize) {
+      const batch = filePaths.slice(i, i + batchSize);
+      const batchResults = await Promise.allSettled(
+        batch.map(filePath => this.getLocalAnalysis(filePath, sourceAnalyzer, pool, blocksOnly))
+      );
+
+      batchResults.forEach((result, index) => {
+        const actualIndex = i + index;
+        if (result.status === 'fulfilled') {
+          results.push(result.value);
+          if (!blocksOnly && ((actualIndex + 1) % 10 === 0 || actualIndex === filePaths.length - 1)) {
+            this.analyzerLogger.debug('Progresso da análise', { 
+              analyzed: actualIndex + 1, 
+              total: filePaths.length,
+              percentage: Math.round(((actualIndex + 1) / filePaths.length) * 100)
+            });
+          }
+        } else {
+          results.push(null);
+          this.recordFailure(filePaths[actualIndex], result.reason as Error, skippedFiles);
         }
+      });
+    }
+
+    return results;
+  }
+
+  private async getLocalAnalysis(
+    filePath: string,
+    sourceAnalyzer: SourceAnalyzer,
+    pool: WorkerPool | null,
+    blocksOnly: boolean
+  ): Promise<SourceFileResult> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    const cacheKey = this.cache?.createKey(content);
+    const cached = this.cache && cacheKey ? await this.cache.get(filePath, cacheKey) : null;
+
+    if (cached) {
+      return { filePath, content, analysis: cached };
+    }
+
+    const timeoutMs = this.config.performance?.timeoutMs;
+    let sourceAnalysis: SourceAnalysis;
+
+    if (pool) {
+      try {
+        sourceAnalysis = await pool.run(filePath, content, blocksOnly, timeoutMs);
+      } catch (error) {
+        // Repetir na thread principal um arquivo que estourou o tempo travaria a execução
+        if (error instanceof AnalysisTimeoutError) throw error;
+
+        this.analyzerLogger.warn('Worker falhou, analisando na thread principal', {
+          file: path.relative(process.cwd(), filePath),
+          error: (error as Error).message
+        });
+        sourceAnalysis = sourceAnalyzer.analyze(filePath, content, { blocksOnly, timeoutMs });
+      }
+    } else {
+      sourceAnalysis = sourceAnalyzer.analyze(filePath, content, { blocksOnly, timeoutMs });
+    }
+
+    const { analysis, timings } = sourceAnalysis;
+    Object.entries(timings).forEach(([name, elapsed]) => {
+      this.detectorTimings[name] = (this.detectorTimings[name] ?? 0) + elapsed;
+    });
+
+    // Resultados só com blocos de duplicação e strings não servem como entrada completa
+    if (this.cache && cacheKey && !blocksOnly) {
+      await this.cache.set(filePath, cacheKey, analysis);
+    }
+
+    return { filePath, content, analysis };
+  }
+
+  private recordFailure(filePath: string, error: Error, skippedFiles: SkippedFile[] | null): void {
+    const relativePath = this.getRelativePath(filePath);
+    const timedOut = error instanceof AnalysisTimeoutError;
+
+    if (timedOut) {
+      this.analyzerLogger.warn('Tempo limite excedido, arquivo ignorado', {
+        file: relativePath,
+        timeoutMs: error.timeoutMs,
+        stage: error.stage
+      });
+    } else {
+      this.analyzerLogger.error('Falha ao analisar arquivo', error, { filePath: relativePath });
+    }
+
+    skippedFiles?.push({
+      path: relativePath,
+      reason: timedOut ? 'timeout' : 'error',
+      message: error.message
+    });
+  }
+
+  private logDetectorTimings(): void {
+    const timings = Object.entries(this.detectorTimings)
+      .sort(([, a], [, b]) => b - a)
+      .reduce<DetectorTimings>((sorted, [name, elapsed]) => {
+        sorted[name] = Math.round(elapsed);
+        return sorted;
+      }, {});
+
+    if (Object.keys(timings).length > 0) {
+      this.analyzerLogger.debug('Tempo por detector (ms)', timings);
+    }
+  }
+
+  /**
+   * Fase sequencial: cruza os blocos com o índice de duplicação e as strings
+   * com a contagem do projeto, e aplica
+   * supressões, escopo do diff, baseline e pontuação.
+   */
+  private consolidateFile(result: SourceFileResult, crossFileDetectors: CrossFileDetectors): FileAnalysis | null {
+    const { filePath, analysis } = result;
+
+    try {
+      const file = this.toParsedFile(result);
+      const { duplication, magicValues } = crossFileDetectors;
+      const duplicationIssues = duplication ? duplication.restore(file, analysis.duplicationBlocks) : [];
+      const stringIssues = magicValues ? magicValues.restore(file, analysis.stringLiterals) : [];
+      const allIssues = [...analysis.issues, ...duplicationIssues, ...stringIssues];
+      // Trechos de duplicação e de strings são gerados aqui, a partir do conteúdo original
+      SecretMask.fromIssues(result.content, analysis.issues).apply(allIssues);
+
+      const relativePath = this.getRelativePath(filePath);
+      const suppressionFilter = SuppressionFilter.fromDirectives(file, analysis.suppressions);
+      const suppression = suppressionFilter.apply(allIssues);
+      suppression.issues.push(...suppressionFilter.getUnusedDirectiveIssues());
+      this.ensureUniqueIds(suppression.issues);
+
+      const scopedIssues = this.changeSet
+        ? suppression.issues.filter(issue => this.changeSet!.overlaps(filePath, issue.location))
+        : suppression.issues;
+
+      const issues = this.baseline ? this.baseline.filter(scopedIssues) : scopedIssues;
+      this.baseline?.markAnalyzed(filePath, line =>
+        !this.changeSet || this.changeSet.overlaps(filePath, { file: filePath, line, column: 0 }));
+      const suppressedCount = suppression.suppressedCount;
+
+      if (suppressedCount > 0) {
+        this.analyzerLogger.debug('Problemas suprimidos por diretivas', {
+          file: path.relative(process.cwd(), filePath),
+          suppressed: suppressedCount
+        });
       }
 
-      const score = this.calculateFileScore(allIssues, parsedFile.linesOfCode);
+      const score = this.calculateFileScore(issues, analysis.linesOfCode);
 
       return {
-        path: this.getRelativePath(filePath),
-        linesOfCode: parsedFile.linesOfCode,
-        issues: allIssues,
-        score
+        path: relativePath,
+        linesOfCode: analysis.linesOfCode,
+        issues,
+        score,
+        suppressedIssues: suppressedCount,
+        metrics: analysis.metrics
       };
 
     } catch (error) {
@@ -326,6 +573,76 @@ export class Analyzer {
     }
   }
 
+  private toParsedFile(result: SourceFileResult): ParsedFile {
+    return {
+      path: result.filePath,
+      content: result.content,
+      ast: null,
+      linesOfCode: result.analysis.linesOfCode
+    };
+  }
+
+  private findCrossFileDetectors(detectors: BaseDetector[]): CrossFileDetectors {
+    return {
+      duplication: detectors.find(
+        (detector): detector is DuplicationDetector => detector instanceof DuplicationDetector
+      ),
+      magicValues: detectors.find(
+        (detector): detector is MagicValuesDetector => detector instanceof MagicValuesDetector
+      )
+    };
+  }
+
+  /**
+   * Arquivos fora do diff não geram problemas, mas entram no índice de
+   * duplicação para que clones do código novo ainda sejam encontrados, e na
+   * contagem de strings do projeto.
+   */
+  private indexUnchangedFiles(results: Array<SourceFileResult | null>, crossFileDetectors: CrossFileDetectors): void {
+    const { duplication, magicValues } = crossFileDetectors;
+    if ((!duplication && !magicValues) || results.length === 0) return;
+
+    results.forEach(result => {
+      if (result) {
+        const file = this.toParsedFile(result);
+        duplication?.index(file, result.analysis.duplicationBlocks);
+        magicValues?.index(file, result.analysis.stringLiterals);
+      }
+    });
+
+    this.analyzerLogger.debug('Arquivos inalterados indexados para duplicação e strings', { count: results.length });
+  }
+
+  /**
+   * Fecha a contagem de strings do projeto antes da consolidação, para que a
+   * repetição entre arquivos seja apontada em todos os arquivos que usam a
+   * string, e não só nos consolidados depois que o total passa do limite.
+   */
+  private indexProjectStrings(results: Array<SourceFileResult | null>, crossFileDetectors: CrossFileDetectors): void {
+    const { magicValues } = crossFileDetectors;
+    if (!magicValues) return;
+
+    results.forEach(result => {
+      if (result) {
+        magicValues.index(this.toParsedFile(result), result.analysis.stringLiterals);
+      }
+    });
+  }
+
+  private ensureUniqueIds(issues: Issue[]): void {
+    const seen = new Map<string, number>();
+
+    // Problemas distintos no mesmo ponto (ex.: várias violações de nomenclatura) recebem sufixo
+    issues.forEach(issue => {
+      const occurrences = seen.get(issue.id) ?? 0;
+      seen.set(issue.id, occurrences + 1);
+
+      if (occurrences > 0) {
+        issue.id = `${issue.id}_${occurrences + 1}`;
+      }
+    });
+  }
+
   private calculateFileScore(issues: Issue[], linesOfCode: number): number {
     if (issues.length === 0) return 100;
 
@@ -362,6 +679,14 @@ export class Analyzer {
     return ConfigManager.createDefaultConfig(projectPath);
   }
 
+  setBaseline(baseline: Baseline | null): void {
+    this.baseline = baseline;
+  }
+
+  setChangeSet(changeSet: ChangeSet | null): void {
+    this.changeSet = changeSet;
+  }
+
   getRevisorConfig(): RevisorConfig {
     return this.revisorConfig;
   }
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import { Report, BaselineEntry, BaselineSummary } from '../models/report';
+import { Issue } from '../models/issue';
+import { Fingerprint } from '../utils/fingerprint';
+import { createLogger } from '../utils/logger';
+
+export interface BaselineData {
+  version: number;
+  createdAt: string;
+  entries: BaselineEntry[];
+}
+
+export class Baseline {
+  static readonly FORMAT_VERSION = 1;
+
+  private static baselineLogger = createLogger('Baseline');
+
+  private remaining = new Map<string, BaselineEntry[]>();
+  private knownIssues = 0;
+  private newIssues = 0;
+  private analyzedScope = new Map<string, (line: number) => boolean>();
+
+  private constructor(private filePath: string, private data: BaselineData) {
+    data.entries.forEach(entry => {
+      const entries = this.remaining.get(entry.fingerprint) || [];
+      entries.push(entry);
+      this.remaining.set(entry.fingerprint, entries);
+    });
+  }
+
+  static async load(filePath: string): Promise<Baseline> {
+    let raw: any;
+
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      raw = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Falha ao ler baseline ${filePath}: ${(error as Error).message}`);
+    }
+
+    if (!raw || raw.version !== this.FORMAT_VERSION || !Array.isArray(raw.entries)) {
+      throw new Error(`Arquivo de baseline inválido ou de versão incompatível: ${filePath}`);
+    }
+
+    this.baselineLogger.debug('Baseline carregada', { filePath, entries: raw.entries.length });
+    return new Baseline(filePath, raw as BaselineData);
+  }
+
+  static async create(report: Report, filePath: string): Promise<BaselineData> {
+    const entries: BaselineEntry[] = report.files.flatMap(file =>
+      file.issues.map(issue => ({
+        fingerprint: issue.fingerprint,
+        rule: issue.rule,
+        // Relativo à raiz do projeto, como nos fingerprints
+        file: Fingerprint.toRelativePath(file.path),
+        line: issue.location.line,
+        title: issue.title
+      }))
+    );
+
+    const data: BaselineData = {
+      version: this.FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      entries
+    };
+
+    try {
+      await fs.promises.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
+      this.baselineLogger.info('Baseline criada', { filePath, entries: entries.length });
+      return data;
+    } catch (error) {
+      this.baselineLogger.error('Erro ao salvar baseline', error as Error, { filePath });
+      throw new Error(`Falha ao criar baseline: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Remove problemas já registrados na baseline. Cada entrada é consumida uma
+   * única vez, então uma nova ocorrência idêntica continua sendo reportada.
+   */
+  filter(issues: Issue[]): Issue[] {
+    return issues.filter(issue => {
+      const entries = this.remaining.get(issue.fingerprint);
+
+      if (entries && entries.length > 0) {
+        entries.shift();
+        this.knownIssues++;
+        return false;
+      }
+
+      this.newIssues++;
+      return true;
+    });
+  }
+
+  /**
+   * Registra um arquivo que passou pela análise. Só entradas de arquivos (e,
+   * com --apenas-linhas-alteradas, linhas) registrados aqui podem ser dadas
+   * como corrigidas: arquivos fora do caminho analisado, fora do diff ou que
+   * falharam não dizem nada sobre os problemas da baseline.
+   */
+  markAnalyzed(filePath: string, isLineAnalyzed: (line: number) => boolean = () => true): void {
+    this.analyzedScope.set(Fingerprint.toRelativePath(filePath), isLineAnalyzed);
+  }
+
+  getFixedEntries(): BaselineEntry[] {
+    return Array.from(this.remaining.values()).flat().filter(entry => {
+      const isLineAnalyzed = this.analyzedScope.get(entry.file);
+      return Boolean(isLineAnalyzed && isLineAnalyzed(entry.line));
+    });
+  }
+
+  getSummary(): BaselineSummary {
+    return {
+      path: this.filePath,
+      knownIssues: this.knownIssues,
+      newIssues: this.newIssues,
+      fixedIssues: this.getFixedEntries()
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IssueLocation } from '../models/issue';
+import { GitUtils, LineRange } from '../utils/git-utils';
+import { createLogger } from '../utils/logger';
+
+export class ChangeSet {
+  private static changeSetLogger = createLogger('ChangeSet');
+
+  private constructor(
+    readonly ref: string,
+    readonly onlyChangedLines: boolean,
+    private files: Set<string>,
+    private lines: Map<string, LineRange[]>
+  ) {}
+
+  static async fromGit(ref: string, targetPath: string, onlyChangedLines: boolean = false): Promise<ChangeSet> {
+    const resolvedTarget = path.resolve(targetPath);
+    const cwd = fs.statSync(resolvedTarget).isDirectory() ? resolvedTarget : path.dirname(resolvedTarget);
+    const repoRoot = await GitUtils.getRepositoryRoot(cwd);
+
+    const files = await GitUtils.getChangedFiles(ref, repoRoot);
+    const lines = new Map<string, LineRange[]>();
+
+    if (onlyChangedLines) {
+      const changedLines = await GitUtils.getChangedLines(ref, repoRoot);
+      changedLines.forEach((ranges, file) => lines.set(this.normalize(file), ranges));
+    }
+
+    this.changeSetLogger.debug('Alterações carregadas do git', {
+      ref,
+      repoRoot,
+      changedFiles: files.length,
+      onlyChangedLines
+    });
+
+    return new ChangeSet(ref, onlyChangedLines, new Set(files.map(file => this.normalize(file))), lines);
+  }
+
+  hasFile(filePath: string): boolean {
+    return this.files.has(ChangeSet.normalize(filePath));
+  }
+
+  /**
+   * Indica se o intervalo do problema toca alguma linha alterada.
+   * Sem o modo de linhas alteradas, qualquer problema de um arquivo alterado conta.
+   */
+  overlaps(filePath: string, location: IssueLocation): boolean {
+    if (!this.onlyChangedLines) return this.hasFile(filePath);
+
+    const ranges = this.lines.get(ChangeSet.normalize(filePath));
+    if (!ranges) return false;
+
+    const start = location.line;
+    const end = location.endLine ?? location.line;
+    return ranges.some(range => start <= range.end && end >= range.start);
+  }
+
+  getChangedFileCount(): number {
+    return this.files.size;
+  }
+
+  private static normalize(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    try {
+      return fs.realpathSync(resolved);
+    } catch {
+      return resolved;
+    }
+  }
+}
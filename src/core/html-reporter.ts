@@ -51,7 +51,11 @@ export class HTMLReporter extends BaseReporter {
         ${this.generateCharts(report)}
         ${this.generateCategoryBreakdown(report)}
         ${this.generateFileAnalysis(report)}
+        ${this.generateFunctionMetrics(report)}
+        ${this.generateMaintainability(report)}
         ${this.generateTopIssues(report)}
+        ${this.generateAccessibility(report)}
+        ${this.generateSkippedFiles(report)}
         ${this.generateFooter(report)}
     </div>
     <script>
@@ -177,6 +181,16 @@ export class HTMLReporter extends BaseReporter {
             background: #f7fafc;
         }
         
+        .category-card.category-security {
+            border-left: 4px solid #e53e3e;
+            background: #fff5f5;
+        }
+        
+        .category-card.category-accessibility {
+            border-left: 4px solid #3182ce;
+            background: #ebf8ff;
+        }
+        
         .category-header {
             display: flex;
             align-items: center;
@@ -292,6 +306,13 @@ export class HTMLReporter extends BaseReporter {
             margin-bottom: 8px;
         }
         
+        .issue-fingerprint {
+            font-family: 'Monaco', 'Menlo', monospace;
+            font-size: 0.75rem;
+            color: #a0aec0;
+            margin-bottom: 8px;
+        }
+        
         .issue-suggestion {
             font-size: 0.9rem;
             color: #4a5568;
@@ -312,6 +333,37 @@ export class HTMLReporter extends BaseReporter {
             margin-top: 10px;
         }
         
+        .metrics-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 0.9rem;
+        }
+        
+        .metrics-table th,
+        .metrics-table td {
+            padding: 10px 12px;
+            border-bottom: 1px solid #e2e8f0;
+            text-align: left;
+        }
+        
+        .metrics-table th {
+            background: #f7fafc;
+            color: #4a5568;
+            font-weight: 600;
+        }
+        
+        .metrics-table .metric-value {
+            text-align: right;
+            font-weight: 600;
+            font-variant-numeric: tabular-nums;
+        }
+        
+        .metrics-table .function-location {
+            font-family: 'Monaco', 'Menlo', monospace;
+            font-size: 0.8rem;
+            color: #718096;
+        }
+        
         .footer {
             text-align: center;
             padding: 30px;
@@ -373,6 +425,18 @@ export class HTMLReporter extends BaseReporter {
                 <div class="value">${report.summary.totalIssues}</div>
                 <div class="label">Problemas Encontrados</div>
             </div>
+            ${report.summary.totalSuppressedIssues > 0 ? `
+            <div class="metric-card">
+                <div class="icon">🔇</div>
+                <div class="value">${report.summary.totalSuppressedIssues}</div>
+                <div class="label">Problemas Suprimidos</div>
+            </div>` : ''}
+            ${report.summary.metrics ? `
+            <div class="metric-card">
+                <div class="icon">🔧</div>
+                <div class="value">${report.summary.metrics.averageMaintainabilityIndex}</div>
+                <div class="label">Manutenibilidade Média</div>
+            </div>` : ''}
             <div class="metric-card">
                 <div class="icon">🏆</div>
                 <div class="value ${scoreClass}">${report.summary.overallScore}/100</div>
@@ -480,7 +544,7 @@ export class HTMLReporter extends BaseReporter {
        `).join('');
 
       return `
-        <div class="category-card">
+        <div class="category-card category-${category.category}">
             <div class="category-header">
                 <span class="category-icon">${this.getCategoryIcon(category.category)}</span>
                 <span class="category-name">${this.getCategoryName(category.category)}</span>
@@ -533,6 +597,7 @@ export class HTMLReporter extends BaseReporter {
                 <span class="file-path">📄 ${file.path}</span>
                 <span class="file-score ${scoreClass}">${file.score}/100</span>
                 <span class="file-issues">${file.issues.length} problema${file.issues.length !== 1 ? 's' : ''}</span>
+                ${file.metrics?.maintainabilityIndex !== undefined ? `<span class="file-issues">Manutenibilidade ${file.metrics.maintainabilityIndex}</span>` : ''}
             </div>
             <div class="issue-list" id="file-${index}" style="display: none;">
                 ${issuesHTML}
@@ -555,6 +620,93 @@ export class HTMLReporter extends BaseReporter {
     `;
   }
 
+  private generateFunctionMetrics(report: Report): string {
+    const functions = report.files
+      .flatMap(file => (file.metrics?.functions ?? []).map(metrics => ({ file: file.path, metrics })))
+      .filter(({ metrics }) => metrics.cognitiveComplexity !== undefined)
+      .sort((a, b) =>
+        b.metrics.cognitiveComplexity! - a.metrics.cognitiveComplexity! ||
+        (b.metrics.cyclomaticComplexity ?? 0) - (a.metrics.cyclomaticComplexity ?? 0)
+      )
+      .slice(0, 15);
+
+    if (functions.length === 0) return '';
+
+    const rowsHTML = functions.map(({ file, metrics }) =>
+      `<tr>
+         <td>${this.escapeHtml(metrics.name)}</td>
+         <td class="function-location">${this.escapeHtml(file)}:${metrics.line}</td>
+         <td class="metric-value">${metrics.cognitiveComplexity}</td>
+         <td class="metric-value">${metrics.cyclomaticComplexity ?? '-'}</td>
+         <td class="metric-value">${metrics.maxNestingDepth ?? '-'}</td>
+         <td class="metric-value">${metrics.maintainabilityIndex ?? '-'}</td>
+       </tr>`
+    ).join('');
+
+    return `
+        <div class="section">
+            <h2>🧠 Funções Mais Complexas</h2>
+            <table class="metrics-table">
+                <thead>
+                    <tr>
+                        <th>Função</th>
+                        <th>Local</th>
+                        <th class="metric-value">Cognitiva</th>
+                        <th class="metric-value">Ciclomática</th>
+                        <th class="metric-value">Aninhamento</th>
+                        <th class="metric-value">Manutenibilidade</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${rowsHTML}
+                </tbody>
+            </table>
+        </div>
+    `;
+  }
+
+  private generateMaintainability(report: Report): string {
+    const files = report.files
+      .filter(file => file.metrics?.maintainabilityIndex !== undefined)
+      .sort((a, b) => a.metrics.maintainabilityIndex! - b.metrics.maintainabilityIndex!)
+      .slice(0, 10);
+
+    if (files.length === 0) return '';
+
+    const rowsHTML = files.map(file => {
+      const halstead = file.metrics.halstead;
+      return `<tr>
+         <td class="function-location">${this.escapeHtml(file.path)}</td>
+         <td class="metric-value">${file.metrics.maintainabilityIndex}</td>
+         <td class="metric-value">${halstead?.volume ?? '-'}</td>
+         <td class="metric-value">${halstead?.difficulty ?? '-'}</td>
+         <td class="metric-value">${halstead?.effort ?? '-'}</td>
+         <td class="metric-value">${halstead?.estimatedBugs ?? '-'}</td>
+       </tr>`;
+    }).join('');
+
+    return `
+        <div class="section">
+            <h2>🔧 Arquivos Menos Manuteníveis</h2>
+            <table class="metrics-table">
+                <thead>
+                    <tr>
+                        <th>Arquivo</th>
+                        <th class="metric-value">Manutenibilidade</th>
+                        <th class="metric-value">Volume</th>
+                        <th class="metric-value">Dificuldade</th>
+                        <th class="metric-value">Esforço</th>
+                        <th class="metric-value">Bugs Estimados</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${rowsHTML}
+                </tbody>
+            </table>
+        </div>
+    `;
+  }
+
   private generateTopIssues(report: Report): string {
     if (report.topIssues.length === 0) return '';
 
@@ -564,6 +716,7 @@ export class HTMLReporter extends BaseReporter {
            ${index + 1}. ${this.getSeverityIcon(issue.severity)} ${issue.title}
          </div>
          <div class="issue-location">📍 ${issue.location.file}:${issue.location.line}:${issue.location.column}</div>
+         <div class="issue-fingerprint" title="Fingerprint">🔑 ${issue.fingerprint}</div>
          <div class="issue-suggestion">💡 ${issue.suggestion}</div>
          ${this.options.showCodeSnippets && issue.codeSnippet ? 
            `<div class="code-snippet">${this.escapeHtml(issue.codeSnippet)}</div>` : ''}
@@ -578,11 +731,53 @@ export class HTMLReporter extends BaseReporter {
     `;
   }
 
+  private generateAccessibility(report: Report): string {
+    const issues = report.files.flatMap(file => file.issues)
+      .filter(issue => issue.category === IssueCategory.ACCESSIBILITY);
+    if (issues.length === 0) return '';
+
+    const issuesHTML = issues.map(issue =>
+      `<div class="issue-item issue-${issue.severity}">
+         <div class="issue-title">${this.getSeverityIcon(issue.severity)} ${issue.title}</div>
+         <div class="issue-location">📍 ${issue.location.file}:${issue.location.line}:${issue.location.column}</div>
+         <div class="issue-suggestion">${this.escapeHtml(issue.description)}</div>
+         ${this.options.showCodeSnippets && issue.codeSnippet ?
+           `<div class="code-snippet">${this.escapeHtml(issue.codeSnippet)}</div>` : ''}
+       </div>`
+    ).join('');
+
+    return `
+        <div class="section">
+            <h2>♿ Acessibilidade</h2>
+            ${issuesHTML}
+        </div>
+    `;
+  }
+
+  private generateSkippedFiles(report: Report): string {
+    if (report.skippedFiles.length === 0) return '';
+
+    const skippedHTML = report.skippedFiles.map(skippedFile =>
+      `<div class="issue-item issue-medium">
+         <div class="issue-title">${skippedFile.reason === 'timeout' ? '⏱️' : '❌'} ${this.escapeHtml(skippedFile.path)}</div>
+         <div class="issue-suggestion">${this.escapeHtml(skippedFile.message)}</div>
+       </div>`
+    ).join('');
+
+    return `
+        <div class="section">
+            <h2>⏭️ Arquivos Não Analisados</h2>
+            ${skippedHTML}
+        </div>
+    `;
+  }
+
   private generateIssueHTML(issue: Issue): string {
     return `
         <div class="issue-item issue-${issue.severity}">
             <div class="issue-title">${this.getSeverityIcon(issue.severity)} ${issue.title}</div>
             <div class="issue-location">📍 Linha ${issue.location.line}:${issue.location.column}</div>
+            <div class="issue-fingerprint" title="Fingerprint">🔑 ${issue.fingerprint}</div>
             ${this.options.verbose ? `<div class="issue-suggestion">💡 ${issue.suggestion}</div>` : ''}
             ${this.options.showCodeSnippets && issue.codeSnippet ? 
               `<div class="code-snippet">${this.escapeHtml(issue.codeSnippet)}</div>` : ''}
@@ -59,29 +59,32 @@ export class Parser {
       }
 
       const content = await this.readFile(filePath);
-      const ast = this.parseContent(content, filePath);
-      const linesOfCode = this.calculateLinesOfCode(content);
+      const parsedFile = this.parseSource(filePath, content);
 
       this.parseCache.set(cacheKey, {
         content,
-        ast,
+        ast: parsedFile.ast,
         timestamp: Date.now()
       });
 
       this.cleanupCache();
 
-      return {
-        path: filePath,
-        content,
-        ast,
-        linesOfCode
-      };
+      return parsedFile;
     } catch (error) {
       this.parserLogger.error('Falha ao fazer parse do arquivo', error as Error, { filePath });
       throw new Error(`Falha ao fazer parse do arquivo ${filePath}: ${(error as Error).message}`);
     }
   }
 
+  parseSource(filePath: string, content: string): ParsedFile {
+    return {
+      path: filePath,
+      content,
+      ast: this.parseContent(content, filePath),
+      linesOfCode: this.calculateLinesOfCode(content)
+    };
+  }
+
   parseContent(content: string, filePath?: string): any {
     try {
       const fileExtension = filePath ? path.extname(filePath) : '.js';
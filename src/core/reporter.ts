@@ -12,7 +12,7 @@ export interface ReporterOptions {
   outputPath?: string;
 }
 
-export type ReporterFormat = 'console' | 'json' | 'html';
+export type ReporterFormat = 'console' | 'json' | 'html' | 'sarif';
 
 export abstract class BaseReporter {
   protected options: Required<ReporterOptions>;
@@ -62,6 +62,9 @@ export abstract class BaseReporter {
       case IssueCategory.SIZE: return '📏';
       case IssueCategory.DUPLICATION: return '📋';
       case IssueCategory.BEST_PRACTICES: return '✨';
+      case IssueCategory.DEAD_CODE: return '🪦';
+      case IssueCategory.SECURITY: return '🔒';
+      case IssueCategory.ACCESSIBILITY: return '♿';
       default: return '📝';
     }
   }
@@ -73,6 +76,9 @@ export abstract class BaseReporter {
       case IssueCategory.SIZE: return 'TAMANHO';
       case IssueCategory.DUPLICATION: return 'DUPLICAÇÃO';
       case IssueCategory.BEST_PRACTICES: return 'BOAS PRÁTICAS';
+      case IssueCategory.DEAD_CODE: return 'CÓDIGO MORTO';
+      case IssueCategory.SECURITY: return 'SEGURANÇA';
+      case IssueCategory.ACCESSIBILITY: return 'ACESSIBILIDADE';
       default: return 'OUTROS';
     }
   }
@@ -120,6 +126,14 @@ export class ConsoleReporter extends BaseReporter {
       this.printTopIssues(report);
     }
 
+    if (report.summary.baseline) {
+      this.printBaseline(report);
+    }
+
+    if (report.skippedFiles.length > 0) {
+      this.printSkippedFiles(report);
+    }
+
     this.printFooter(report);
     
     this.reporterLogger.debug('Relatório gerado com sucesso', {
@@ -137,6 +151,13 @@ export class ConsoleReporter extends BaseReporter {
     console.log(`📁 Arquivos analisados: ${summary.totalFiles}`);
     console.log(`📝 Linhas de código: ${summary.totalLinesOfCode.toLocaleString()}`);
     console.log(`⚠️  Total de problemas: ${summary.totalIssues}`);
+    if (summary.totalSuppressedIssues > 0) {
+      console.log(`🔇 Problemas suprimidos: ${summary.totalSuppressedIssues}`);
+    }
+    if (summary.metrics) {
+      console.log(`🔧 Manutenibilidade média: ${summary.metrics.averageMaintainabilityIndex}/100 (menor: ${summary.metrics.lowestMaintainabilityIndex})`);
+      console.log(`🐞 Bugs estimados (Halstead): ${summary.metrics.estimatedBugs}`);
+    }
     console.log(`${scoreColor}🏆 Pontuação Geral: ${summary.overallScore}/100${this.reset()}`);
     console.log(`🗓️  Data da análise: ${summary.analysisDate.toLocaleString('pt-BR')}`);
   }
@@ -189,7 +210,10 @@ export class ConsoleReporter extends BaseReporter {
         
         const scoreColor = this.getScoreColor(file.score);
         console.log(`\n📄 ${file.path}`);
-        console.log(`   ${scoreColor}Pontuação: ${file.score}/100${this.reset()} | Problemas: ${file.issues.length} | Linhas: ${file.linesOfCode}`);
+        const maintainability = file.metrics?.maintainabilityIndex !== undefined
+          ? ` | Manutenibilidade: ${file.metrics.maintainabilityIndex}`
+          : '';
+        console.log(`   ${scoreColor}Pontuação: ${file.score}/100${this.reset()} | Problemas: ${file.issues.length} | Linhas: ${file.linesOfCode}${maintainability}`);
         
         const issuesToShow = file.issues
           .slice(0, this.options.maxIssuesPerFile)
@@ -215,6 +239,7 @@ export class ConsoleReporter extends BaseReporter {
       console.log(`\n${index + 1}. ${this.getSeverityIcon(issue.severity)} ${issue.title}`);
       console.log(`   📍 ${issue.location.file}:${issue.location.line}:${issue.location.column}`);
       console.log(`   💡 ${issue.suggestion}`);
+      console.log(`   🔑 ${issue.fingerprint}`);
       
       if (this.options.showCodeSnippets && issue.codeSnippet) {
         console.log('\n   📝 Código:');
@@ -223,6 +248,35 @@ export class ConsoleReporter extends BaseReporter {
     });
   }
 
+  private printBaseline(report: Report): void {
+    const baseline = report.summary.baseline!;
+
+    console.log('\n📌 BASELINE');
+    console.log('-'.repeat(50));
+    console.log(`📄 Arquivo: ${baseline.path}`);
+    console.log(`🆕 Problemas novos: ${baseline.newIssues}`);
+    console.log(`🙈 Problemas conhecidos ocultados: ${baseline.knownIssues}`);
+    console.log(`✅ Problemas corrigidos: ${baseline.fixedIssues.length}`);
+
+    baseline.fixedIssues.slice(0, 10).forEach(entry => {
+      console.log(`   • ${entry.file}:${entry.line} [${entry.rule}] ${entry.title}`);
+    });
+
+    if (baseline.fixedIssues.length > 10) {
+      console.log(`   💭 ... e mais ${baseline.fixedIssues.length - 10}`);
+    }
+  }
+
+  private printSkippedFiles(report: Report): void {
+    console.log('\n⏭️  ARQUIVOS NÃO ANALISADOS');
+    console.log('-'.repeat(50));
+
+    report.skippedFiles.forEach(skippedFile => {
+      const icon = skippedFile.reason === 'timeout' ? '⏱️ ' : '❌';
+      console.log(`${icon} ${skippedFile.path}: ${skippedFile.message}`);
+    });
+  }
+
   private printIssue(issue: Issue, indent: string = ''): void {
     const severityColor = this.getSeverityColor(issue.severity);
     const icon = this.getSeverityIcon(issue.severity);
@@ -234,6 +288,7 @@ export class ConsoleReporter extends BaseReporter {
     if (this.options.verbose) {
       console.log(`${indent}   📝 ${issue.description}`);
       console.log(`${indent}   💡 ${issue.suggestion}`);
+      console.log(`${indent}   🔑 ${issue.fingerprint}`);
     }
   }
 
@@ -295,6 +350,7 @@ export class JSONReporter extends BaseReporter {
           codeSnippet: this.options.showCodeSnippets ? issue.codeSnippet : undefined
         }))
       })),
+      skippedFiles: report.skippedFiles,
       topIssues: report.topIssues.slice(0, 10),
       metadata: {
         generatedAt: new Date().toISOString(),
@@ -327,6 +383,11 @@ export function createReporter(format: ReporterFormat, options: Partial<Reporter
         reporterLogger.debug('Criando HTMLReporter');
         const { HTMLReporter } = require('./html-reporter');
         return new HTMLReporter(options);
+
+      case 'sarif':
+        reporterLogger.debug('Criando SarifReporter');
+        const { SarifReporter } = require('./sarif-reporter');
+        return new SarifReporter(options);
         
       default:
         reporterLogger.warn('Formato de reporter não reconhecido, usando console', { format });
@@ -340,7 +401,7 @@ export function createReporter(format: ReporterFormat, options: Partial<Reporter
 }
 
 export function getAvailableFormats(): ReporterFormat[] {
-  return ['console', 'json', 'html'];
+  return ['console', 'json', 'html', 'sarif'];
 }
 
 export function validateReporterFormat(format: string): format is ReporterFormat {
@@ -348,4 +409,5 @@ export function validateReporterFormat(format: string): format is ReporterFormat
 }
 
 // Re-export para compatibilidade
-export { HTMLReporter } from './html-reporter';
\ No newline at end of file
+export { HTMLReporter } from './html-reporter';
+export { SarifReporter } from './sarif-reporter';
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { BaseReporter } from './reporter';
+import { Report } from '../models/report';
+import { Issue, IssueSeverity, IssueCategory, IssueLocation } from '../models/issue';
+import { getRuleMetadata } from '../detectors';
+import { createLogger } from '../utils/logger';
+import { getToolVersion } from '../utils/tool-version';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  help?: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { category: string; tags?: string[] };
+}
+
+interface SarifRegion {
+  startLine: number;
+  startColumn: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  partialFingerprints: { [key: string]: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: SarifRegion;
+    };
+  }>;
+  properties: { severity: IssueSeverity; category: string; title: string };
+}
+
+export class SarifReporter extends BaseReporter {
+  private static readonly SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+  private static readonly TOOL_NAME = 'revisor-codigo';
+  private static readonly TOOL_URI = 'https://github.com/ViniLF/code-review-helper';
+
+  private sarifLogger = createLogger('SarifReporter');
+
+  generate(report: Report): void {
+    this.sarifLogger.info('Gerando relatório SARIF');
+
+    console.log(JSON.stringify(this.buildSarif(report), null, 2));
+
+    this.sarifLogger.debug('Relatório SARIF gerado');
+  }
+
+  async generateToFile(report: Report, outputPath: string): Promise<void> {
+    try {
+      const sarif = JSON.stringify(this.buildSarif(report), null, 2);
+      await fs.promises.writeFile(outputPath, sarif, 'utf8');
+
+      this.sarifLogger.info('Relatório SARIF salvo', { outputPath });
+    } catch (error) {
+      this.sarifLogger.error('Erro ao salvar relatório SARIF', error as Error, { outputPath });
+      throw error;
+    }
+  }
+
+  private buildSarif(report: Report): object {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const results: SarifResult[] = [];
+
+    report.files.forEach(file => {
+      file.issues.forEach(issue => {
+        if (!ruleIndexes.has(issue.rule)) {
+          ruleIndexes.set(issue.rule, rules.length);
+          rules.push(this.createRule(issue));
+        }
+
+        results.push(this.createResult(issue, ruleIndexes.get(issue.rule)!));
+      });
+    });
+
+    return {
+      $schema: SarifReporter.SCHEMA_URI,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: SarifReporter.TOOL_NAME,
+              version: getToolVersion(),
+              informationUri: SarifReporter.TOOL_URI,
+              rules
+            }
+          },
+          originalUriBaseIds: {
+            '%SRCROOT%': { uri: this.toFileUri(process.cwd()) }
+          },
+          columnKind: 'utf16CodeUnits',
+          invocations: [this.createInvocation(report)],
+          results
+        }
+      ]
+    };
+  }
+
+  /**
+   * Arquivos não analisados viram notificações de execução, para não sumirem
+   * silenciosamente do code scanning.
+   */
+  private createInvocation(report: Report): object {
+    return {
+      executionSuccessful: true,
+      toolExecutionNotifications: report.skippedFiles.map(skippedFile => ({
+        level: 'warning',
+        descriptor: { id: skippedFile.reason === 'timeout' ? 'tempo-limite-excedido' : 'falha-na-analise' },
+        message: { text: `${skippedFile.path}: ${skippedFile.message}` },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: this.toRelativeUri(skippedFile.path),
+                uriBaseId: '%SRCROOT%'
+              }
+            }
+          }
+        ]
+      }))
+    };
+  }
+
+  /**
+   * O descritor da regra é compartilhado por todas as ocorrências, então usa
+   * os textos da regra; o que é específico de cada ocorrência fica no resultado.
+   */
+  private createRule(issue: Issue): SarifRule {
+    const metadata = getRuleMetadata(issue.rule);
+    const title = metadata?.title ?? issue.rule;
+
+    return {
+      id: issue.rule,
+      name: this.toRuleName(issue.rule),
+      shortDescription: { text: title },
+      fullDescription: { text: metadata?.description ?? title },
+      ...(metadata?.suggestion ? { help: { text: metadata.suggestion } } : {}),
+      defaultConfiguration: { level: this.toSarifLevel(metadata?.severity ?? issue.severity) },
+      properties: {
+        category: this.getCategoryName(issue.category),
+        // Code scanning usa a tag security para separar alertas de segurança
+        ...(issue.category === IssueCategory.SECURITY ? { tags: ['security'] } : {})
+      }
+    };
+  }
+
+  private createResult(issue: Issue, ruleIndex: number): SarifResult {
+    return {
+      ruleId: issue.rule,
+      ruleIndex,
+      level: this.toSarifLevel(issue.severity),
+      message: { text: `${issue.title}: ${issue.description} ${issue.suggestion}` },
+      partialFingerprints: { 'revisorFingerprint/v1': issue.fingerprint },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: this.toRelativeUri(issue.location.file),
+              uriBaseId: '%SRCROOT%'
+            },
+            region: this.createRegion(issue)
+          }
+        }
+      ],
+      properties: {
+        severity: issue.severity,
+        category: issue.category,
+        title: issue.title
+      }
+    };
+  }
+
+  private createRegion(issue: Issue): SarifRegion {
+    const location: IssueLocation = issue.location;
+
+    // SARIF usa colunas a partir de 1; o Babel começa em 0
+    const region: SarifRegion = {
+      startLine: Math.max(1, location.line),
+      startColumn: location.column + 1
+    };
+
+    if (location.endLine !== undefined) {
+      region.endLine = location.endLine;
+    }
+
+    if (location.endColumn !== undefined) {
+      region.endColumn = location.endColumn + 1;
+    }
+
+    return region;
+  }
+
+  private toSarifLevel(severity: IssueSeverity): SarifLevel {
+    switch (severity) {
+      case IssueSeverity.CRITICAL:
+      case IssueSeverity.HIGH:
+        return 'error';
+      case IssueSeverity.MEDIUM:
+        return 'warning';
+      case IssueSeverity.LOW:
+      default:
+        return 'note';
+    }
+  }
+
+  private toRuleName(ruleId: string): string {
+    return ruleId
+      .split('-')
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('');
+  }
+
+  private toRelativeUri(filePath: string): string {
+    const relativePath = path.isAbsolute(filePath) ? path.relative(process.cwd(), filePath) : filePath;
+    return relativePath.split(path.sep).map(encodeURIComponent).join('/');
+  }
+
+  private toFileUri(directory: string): string {
+    const href = pathToFileURL(directory).href;
+    return href.endsWith('/') ? href : `${href}/`;
+  }
+}
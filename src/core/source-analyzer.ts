@@ -0,0 +1,217 @@
+import * as path from 'path';
+import { Parser } from './parser';
+import { SuppressionFilter, SuppressionDirective } from './suppression';
+import { Issue } from '../models/issue';
+import { FileMetrics } from '../models/report';
+import { BaseDetector, VisitorDetector, DuplicationDetector, MagicValuesDetector, MetricsCollector, SecretMask } from '../detectors';
+import { ParsedFile } from '../detectors/base/detector';
+import { CodeBlock } from '../detectors/javascript/duplication-detector';
+import { StringLiteralUse } from '../detectors/javascript/magic-values';
+import { AstTraversal, TraversalParticipant } from '../detectors/base/traversal';
+import { createLogger } from '../utils/logger';
+
+export interface LocalFileAnalysis {
+  linesOfCode: number;
+  issues: Issue[];
+  duplicationBlocks: CodeBlock[];
+  stringLiterals: StringLiteralUse[];
+  suppressions: SuppressionDirective[];
+  metrics: FileMetrics;
+}
+
+/**
+ * Milissegundos gastos por etapa: o parser, cada detector pelo nome e o custo
+ * da própria travessia compartilhada, fora dos visitantes.
+ */
+export type DetectorTimings = Record<string, number>;
+
+export interface SourceAnalysis {
+  analysis: LocalFileAnalysis;
+  timings: DetectorTimings;
+}
+
+export interface SourceAnalysisOptions {
+  /** Extrai apenas os blocos de duplicação e as strings, para arquivos que só entram nos índices. */
+  blocksOnly?: boolean;
+  timeoutMs?: number;
+}
+
+export class AnalysisTimeoutError extends Error {
+  constructor(readonly timeoutMs: number, readonly stage?: string) {
+    super(`Tempo limite de ${timeoutMs}ms excedido${stage ? ` em ${stage}` : ''}`);
+    this.name = 'AnalysisTimeoutError';
+  }
+}
+
+/**
+ * Parte da análise que depende só do próprio arquivo: parsing, detectores
+ * locais, blocos de duplicação e diretivas de supressão. O resultado é
+ * serializável, então pode vir do cache ou de uma worker thread; o cruzamento
+ * entre arquivos fica para a fase de consolidação no Analyzer.
+ */
+export class SourceAnalyzer {
+  private static readonly TRAVERSAL_STAGE = 'Travessia da AST';
+
+  private sourceLogger = createLogger('SourceAnalyzer');
+  private localDetectors: BaseDetector[];
+  private duplicationDetector?: DuplicationDetector;
+  private magicValuesDetector?: MagicValuesDetector;
+
+  constructor(private parser: Parser, detectors: BaseDetector[]) {
+    this.duplicationDetector = detectors.find(
+      (detector): detector is DuplicationDetector => detector instanceof DuplicationDetector
+    );
+    this.magicValuesDetector = detectors.find(
+      (detector): detector is MagicValuesDetector => detector instanceof MagicValuesDetector
+    );
+    this.localDetectors = detectors.filter(detector => detector !== this.duplicationDetector);
+  }
+
+  /**
+   * A AST é percorrida uma única vez com os visitantes de todos os detectores
+   * baseados em VisitorDetector e a coleta de blocos de duplicação e de
+   * strings para a contagem entre arquivos; os demais
+   * detectores (plugins) rodam em seguida com detect(). O tempo limite é
+   * verificado durante a travessia e entre os detectores avulsos; um visitante
+   * em execução não é interrompido aqui, só no pool de workers, que encerra a
+   * thread.
+   */
+  analyze(filePath: string, content: string, options: SourceAnalysisOptions = {}): SourceAnalysis {
+    const deadline = options.timeoutMs ? Date.now() + options.timeoutMs : Infinity;
+    const timings: DetectorTimings = {};
+
+    const parsedFile = this.measure(timings, 'Parser', () => this.parser.parseSource(filePath, content));
+    this.checkDeadline(deadline, options.timeoutMs, 'Parser');
+
+    const detectors = options.blocksOnly ? [] : this.localDetectors;
+    const issuesByDetector = new Map<BaseDetector, Issue[]>(detectors.map(detector => [detector, []]));
+    const visitorDetectors = new Map<string, VisitorDetector>();
+    const participants: TraversalParticipant[] = [];
+    const duplicationBlocks: CodeBlock[] = [];
+    const stringLiterals: StringLiteralUse[] = [];
+    const metrics = new MetricsCollector();
+    // Dados parciais gerariam duplicações e contagens incompletas, então são descartados se a coleta falhar
+    const crossFileData = new Map<string, unknown[]>();
+
+    const blockPass = this.duplicationDetector?.createBlockPass(parsedFile, duplicationBlocks);
+    if (blockPass) {
+      participants.push({ name: this.duplicationDetector!.getName(), pass: blockPass });
+      crossFileData.set(this.duplicationDetector!.getName(), duplicationBlocks);
+    }
+
+    const stringPass = this.magicValuesDetector?.createStringPass(parsedFile, stringLiterals);
+    if (stringPass) {
+      const name = `${this.magicValuesDetector!.getName()}:strings`;
+      participants.push({ name, pass: stringPass });
+      crossFileData.set(name, stringLiterals);
+    }
+
+    for (const detector of detectors) {
+      if (!(detector instanceof VisitorDetector)) continue;
+
+      try {
+        const pass = detector.createPass(parsedFile, issuesByDetector.get(detector)!, metrics);
+        if (pass) {
+          participants.push({ name: detector.getName(), pass });
+          visitorDetectors.set(detector.getName(), detector);
+        }
+      } catch (error) {
+        this.warnDetectorFailure(detector.getName(), filePath, error as Error);
+      }
+    }
+
+    this.traverse(parsedFile, participants, timings, () => this.checkDeadline(deadline, options.timeoutMs, 'travessia da AST'))
+      .forEach((error, name) => {
+        const detector = visitorDetectors.get(name);
+        if (detector) {
+          detector.reportFailure(parsedFile, error);
+        } else {
+          crossFileData.get(name)!.length = 0;
+          this.warnDetectorFailure(name, filePath, error);
+        }
+      });
+    this.checkDeadline(deadline, options.timeoutMs, 'travessia da AST');
+
+    if (options.blocksOnly) {
+      return {
+        analysis: { linesOfCode: parsedFile.linesOfCode, issues: [], duplicationBlocks, stringLiterals, suppressions: [], metrics: { functions: [] } },
+        timings
+      };
+    }
+
+    for (const detector of detectors) {
+      if (detector instanceof VisitorDetector) continue;
+
+      try {
+        issuesByDetector.set(detector, this.measure(timings, detector.getName(), () => detector.detect(parsedFile)));
+      } catch (error) {
+        this.warnDetectorFailure(detector.getName(), filePath, error as Error);
+      }
+
+      this.checkDeadline(deadline, options.timeoutMs, detector.getName());
+    }
+
+    const issues = detectors.flatMap(detector => issuesByDetector.get(detector)!);
+
+    // O resultado vai para o cache: segredos não podem sobrar nos trechos nem na contagem de strings
+    const secretMask = SecretMask.fromIssues(content, issues);
+    secretMask.apply(issues);
+
+    return {
+      analysis: {
+        linesOfCode: parsedFile.linesOfCode,
+        issues,
+        duplicationBlocks,
+        stringLiterals: stringLiterals.filter(use => !secretMask.covers(use.value)),
+        suppressions: SuppressionFilter.fromParsedFile(parsedFile).getDirectives(),
+        metrics: metrics.getMetrics()
+      },
+      timings
+    };
+  }
+
+  private traverse(
+    parsedFile: ParsedFile,
+    participants: TraversalParticipant[],
+    timings: DetectorTimings,
+    checkpoint: () => void
+  ): Map<string, Error> {
+    if (participants.length === 0) return new Map();
+
+    const result = this.measure(timings, SourceAnalyzer.TRAVERSAL_STAGE, () =>
+      AstTraversal.run(parsedFile.ast, participants, { checkpoint })
+    );
+
+    Object.entries(result.timings).forEach(([name, elapsed]) => {
+      timings[name] = (timings[name] ?? 0) + elapsed;
+      timings[SourceAnalyzer.TRAVERSAL_STAGE] -= elapsed;
+    });
+
+    return result.failures;
+  }
+
+  private warnDetectorFailure(detectorName: string, filePath: string, error: Error): void {
+    this.sourceLogger.warn('Detector falhou', {
+      detector: detectorName,
+      file: path.relative(process.cwd(), filePath),
+      error: error.message
+    });
+  }
+
+  private measure<T>(timings: DetectorTimings, name: string, run: () => T): T {
+    const start = process.hrtime.bigint();
+
+    try {
+      return run();
+    } finally {
+      const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+      timings[name] = (timings[name] ?? 0) + elapsed;
+    }
+  }
+
+  private checkDeadline(deadline: number, timeoutMs: number | undefined, stage?: string): void {
+    if (Date.now() > deadline) {
+      throw new AnalysisTimeoutError(timeoutMs!, stage);
+    }
+  }
+}
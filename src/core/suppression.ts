@@ -0,0 +1,200 @@
+import { ParsedFile } from '../detectors/base/detector';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory, IssueLocation } from '../models/issue';
+import { Fingerprint } from '../utils/fingerprint';
+
+export type SuppressionKind = 'next-line' | 'line' | 'block';
+
+export interface SuppressionDirective {
+  kind: SuppressionKind;
+  rules: string[];
+  startLine: number;
+  endLine: number;
+  commentLine: number;
+  commentColumn: number;
+  fingerprint: string;
+  used: boolean;
+}
+
+export interface SuppressionResult {
+  issues: Issue[];
+  suppressedCount: number;
+}
+
+const DIRECTIVE_PATTERN = /^\s*revisor-(disable-next-line|disable-line|disable|enable)(?:\s+([^]*?))?\s*$/;
+
+export class SuppressionFilter {
+  private static readonly UNUSED_RULE = 'supressao-nao-utilizada';
+
+  private constructor(
+    private file: ParsedFile,
+    private directives: SuppressionDirective[]
+  ) {}
+
+  static fromParsedFile(file: ParsedFile): SuppressionFilter {
+    const comments: any[] = file.ast?.comments || [];
+    const directives: SuppressionDirective[] = [];
+    const openBlocks: SuppressionDirective[] = [];
+    const lastLine = file.content.split('\n').length;
+
+    for (const comment of comments) {
+      const match = DIRECTIVE_PATTERN.exec(comment.value);
+      if (!match || !comment.loc) continue;
+
+      const [, keyword, rawRules] = match;
+      const rules = SuppressionFilter.parseRules(rawRules);
+      const line = comment.loc.start.line;
+
+      switch (keyword) {
+        case 'disable-next-line':
+          directives.push(SuppressionFilter.createDirective('next-line', rules, comment, comment.loc.end.line + 1));
+          break;
+
+        case 'disable-line':
+          directives.push(SuppressionFilter.createDirective('line', rules, comment, line));
+          break;
+
+        case 'disable':
+          if (comment.type !== 'CommentBlock') continue;
+          openBlocks.push(SuppressionFilter.createDirective('block', rules, comment, line, lastLine));
+          break;
+
+        case 'enable':
+          if (comment.type !== 'CommentBlock') continue;
+          for (let i = openBlocks.length - 1; i >= 0; i--) {
+            const block = openBlocks[i];
+            if (rules.length === 0 || block.rules.some(rule => rules.includes(rule))) {
+              block.endLine = line;
+              directives.push(block);
+              openBlocks.splice(i, 1);
+            }
+          }
+          break;
+      }
+    }
+
+    // Blocos sem revisor-enable valem até o fim do arquivo
+    directives.push(...openBlocks);
+
+    directives.forEach(directive => {
+      directive.fingerprint = Fingerprint.compute(
+        SuppressionFilter.UNUSED_RULE,
+        SuppressionFilter.getDirectiveLocation(file, directive),
+        file
+      );
+    });
+
+    return new SuppressionFilter(file, directives);
+  }
+
+  /**
+   * Recria o filtro a partir de diretivas já extraídas (ex.: vindas do cache),
+   * sem precisar dos comentários da AST.
+   */
+  static fromDirectives(file: ParsedFile, directives: SuppressionDirective[]): SuppressionFilter {
+    return new SuppressionFilter(file, directives.map(directive => ({ ...directive, used: false })));
+  }
+
+  apply(issues: Issue[]): SuppressionResult {
+    if (this.directives.length === 0) {
+      return { issues, suppressedCount: 0 };
+    }
+
+    const kept: Issue[] = [];
+    let suppressedCount = 0;
+
+    for (const issue of issues) {
+      // Todas as diretivas que cobrem o problema contam como usadas, não só a primeira
+      const matching = this.directives.filter(d => this.matches(d, issue));
+
+      if (matching.length > 0) {
+        matching.forEach(directive => { directive.used = true; });
+        suppressedCount++;
+      } else {
+        kept.push(issue);
+      }
+    }
+
+    return { issues: kept, suppressedCount };
+  }
+
+  getUnusedDirectiveIssues(): Issue[] {
+    return this.directives
+      .filter(directive => !directive.used)
+      .map(directive => this.createUnusedDirectiveIssue(directive));
+  }
+
+  getDirectives(): SuppressionDirective[] {
+    return this.directives.map(directive => ({ ...directive }));
+  }
+
+  private matches(directive: SuppressionDirective, issue: Issue): boolean {
+    const line = issue.location.line;
+    if (line < directive.startLine || line > directive.endLine) return false;
+
+    return directive.rules.length === 0 || directive.rules.includes(issue.rule);
+  }
+
+  private createUnusedDirectiveIssue(directive: SuppressionDirective): Issue {
+    const location = SuppressionFilter.getDirectiveLocation(this.file, directive);
+    const target = directive.rules.length > 0 ? `regra(s) ${directive.rules.join(', ')}` : 'todas as regras';
+
+    return IssueBuilder.create()
+      .withId(`SuppressionFilter_${directive.fingerprint}_${location.line}_${location.column}`)
+      .withCategory(IssueCategory.BEST_PRACTICES)
+      .withSeverity(IssueSeverity.LOW)
+      .withTitle('Diretiva de supressão não utilizada')
+      .withDescription(`A diretiva revisor-${this.getKeyword(directive.kind)} para ${target} não suprimiu nenhum problema.`)
+      .withSuggestion('Remova a diretiva ou corrija o nome da regra. Diretivas obsoletas escondem problemas futuros sem necessidade.')
+      .withLocation(location)
+      .withRule(SuppressionFilter.UNUSED_RULE)
+      .withFingerprint(directive.fingerprint)
+      .build();
+  }
+
+  private getKeyword(kind: SuppressionKind): string {
+    switch (kind) {
+      case 'next-line': return 'disable-next-line';
+      case 'line': return 'disable-line';
+      case 'block': return 'disable';
+    }
+  }
+
+  private static getDirectiveLocation(file: ParsedFile, directive: SuppressionDirective): IssueLocation {
+    return {
+      file: file.path,
+      line: directive.commentLine,
+      column: directive.commentColumn
+    };
+  }
+
+  private static createDirective(
+    kind: SuppressionKind,
+    rules: string[],
+    comment: any,
+    startLine: number,
+    endLine: number = startLine
+  ): SuppressionDirective {
+    return {
+      kind,
+      rules,
+      startLine,
+      endLine,
+      commentLine: comment.loc.start.line,
+      commentColumn: comment.loc.start.column,
+      fingerprint: '',
+      used: false
+    };
+  }
+
+  private static parseRules(rawRules?: string): string[] {
+    if (!rawRules) return [];
+
+    // Texto após "--" é uma justificativa, não uma lista de regras
+    const [rulesPart] = rawRules.split('--');
+
+    return rulesPart
+      .split(/[\s,]+/)
+      .map(rule => rule.trim())
+      .filter(Boolean);
+  }
+}
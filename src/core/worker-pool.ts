@@ -0,0 +1,215 @@
+import { Worker } from 'worker_threads';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ParserOptions } from './parser';
+import { SourceAnalysis, AnalysisTimeoutError } from './source-analyzer';
+import { createLogger, LogLevel } from '../utils/logger';
+
+export interface AnalysisWorkerData {
+  language: string;
+  detectorConfig: unknown;
+  plugins: string[];
+  parserOptions: ParserOptions;
+  projectRoot: string;
+  logLevel: LogLevel;
+}
+
+export interface AnalysisTask {
+  id: number;
+  filePath: string;
+  content: string;
+  blocksOnly: boolean;
+  timeoutMs?: number;
+}
+
+export interface AnalysisWorkerResponse {
+  id: number;
+  result?: SourceAnalysis;
+  error?: string;
+  timedOut?: boolean;
+  stage?: string;
+}
+
+interface PendingTask {
+  task: AnalysisTask;
+  resolve: (result: SourceAnalysis) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: PendingTask | null;
+  timer: NodeJS.Timeout | null;
+  completedTasks: number;
+  retired: boolean;
+}
+
+export class WorkerPool {
+  private static readonly WORKER_SCRIPT = path.join(__dirname, 'analysis-worker.js');
+  private static poolLogger = createLogger('WorkerPool');
+
+  private workers: PoolWorker[] = [];
+  private queue: PendingTask[] = [];
+  private nextTaskId = 0;
+  private closed = false;
+
+  private constructor(readonly size: number, private workerData: AnalysisWorkerData) {
+    for (let i = 0; i < size; i++) {
+      this.spawn();
+    }
+  }
+
+  /**
+   * Cria o pool com `workers` threads (0 = núcleos disponíveis menos um, no
+   * mínimo um), limitado ao número de arquivos. Mesmo com uma só thread o pool
+   * compensa: é ele que consegue interromper um arquivo que estourou o tempo
+   * limite. Retorna null quando o script compilado do worker não existe (ts-node).
+   */
+  static create(workers: number, fileCount: number, workerData: AnalysisWorkerData): WorkerPool | null {
+    const requested = workers > 0 ? Math.floor(workers) : Math.max(1, os.cpus().length - 1);
+    const size = Math.min(requested, fileCount);
+
+    if (size < 1) return null;
+
+    if (!fs.existsSync(this.WORKER_SCRIPT)) {
+      this.poolLogger.debug('Script do worker não encontrado, análise na thread principal', {
+        script: this.WORKER_SCRIPT
+      });
+      return null;
+    }
+
+    this.poolLogger.debug('Pool de workers iniciado', { size });
+    return new WorkerPool(size, workerData);
+  }
+
+  run(filePath: string, content: string, blocksOnly: boolean = false, timeoutMs?: number): Promise<SourceAnalysis> {
+    if (this.closed) {
+      return Promise.reject(new Error('Pool de workers encerrado'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        task: { id: this.nextTaskId++, filePath, content, blocksOnly, timeoutMs },
+        resolve,
+        reject
+      });
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new Error('Pool de workers encerrado');
+    this.rejectQueued(error);
+    this.workers.forEach(poolWorker => {
+      this.clearTimer(poolWorker);
+      poolWorker.current?.reject(error);
+    });
+    await Promise.all(this.workers.map(({ worker }) => worker.terminate()));
+    this.workers = [];
+  }
+
+  private spawn(): void {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(WorkerPool.WORKER_SCRIPT, { workerData: this.workerData }),
+      current: null,
+      timer: null,
+      completedTasks: 0,
+      retired: false
+    };
+
+    poolWorker.worker.on('message', (response: AnalysisWorkerResponse) => {
+      const pending = poolWorker.current;
+      this.clearTimer(poolWorker);
+      poolWorker.current = null;
+      poolWorker.completedTasks++;
+
+      if (pending) {
+        if (response.result) {
+          pending.resolve(response.result);
+        } else if (response.timedOut) {
+          pending.reject(new AnalysisTimeoutError(pending.task.timeoutMs!, response.stage));
+        } else {
+          pending.reject(new Error(response.error || 'Falha desconhecida no worker'));
+        }
+      }
+
+      this.dispatch();
+    });
+
+    poolWorker.worker.on('error', error => {
+      WorkerPool.poolLogger.warn('Worker falhou', { error: error.message });
+    });
+
+    poolWorker.worker.on('exit', code => {
+      if (this.closed || poolWorker.retired) return;
+      this.handleExit(poolWorker, code);
+    });
+
+    this.workers.push(poolWorker);
+  }
+
+  /**
+   * Um worker que cai leva só a tarefa em andamento. Se ele nem chegou a
+   * concluir uma tarefa, o problema é na inicialização e não vale recriá-lo.
+   */
+  private handleExit(poolWorker: PoolWorker, code: number): void {
+    this.workers = this.workers.filter(candidate => candidate !== poolWorker);
+    this.clearTimer(poolWorker);
+    poolWorker.current?.reject(new Error(`Worker encerrado inesperadamente (código ${code})`));
+
+    if (poolWorker.completedTasks > 0) {
+      this.spawn();
+    } else if (this.workers.length === 0) {
+      this.rejectQueued(new Error('Nenhum worker disponível'));
+    }
+
+    this.dispatch();
+  }
+
+  private dispatch(): void {
+    for (const poolWorker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (poolWorker.current) continue;
+
+      const pending = this.queue.shift()!;
+      poolWorker.current = pending;
+      poolWorker.worker.postMessage(pending.task);
+
+      if (pending.task.timeoutMs) {
+        poolWorker.timer = setTimeout(() => this.handleTimeout(poolWorker, pending), pending.task.timeoutMs);
+      }
+    }
+  }
+
+  /**
+   * Código síncrono preso em um detector não tem como ser cancelado de dentro;
+   * a única saída é descartar a thread e colocar outra no lugar.
+   */
+  private handleTimeout(poolWorker: PoolWorker, pending: PendingTask): void {
+    if (poolWorker.current !== pending) return;
+
+    poolWorker.retired = true;
+    poolWorker.current = null;
+    poolWorker.timer = null;
+    this.workers = this.workers.filter(candidate => candidate !== poolWorker);
+
+    pending.reject(new AnalysisTimeoutError(pending.task.timeoutMs!));
+    poolWorker.worker.terminate().catch(() => undefined);
+
+    this.spawn();
+    this.dispatch();
+  }
+
+  private clearTimer(poolWorker: PoolWorker): void {
+    if (poolWorker.timer) {
+      clearTimeout(poolWorker.timer);
+      poolWorker.timer = null;
+    }
+  }
+
+  private rejectQueued(error: Error): void {
+    this.queue.splice(0).forEach(pending => pending.reject(error));
+  }
+}
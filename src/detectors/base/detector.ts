@@ -1,9 +1,14 @@
+import { NodePath } from '@babel/traverse';
 import { Issue, IssueLocation } from '../../models/issue';
+import { Fingerprint } from '../../utils/fingerprint';
+import { AstTraversal, DetectorPass } from './traversal';
+import { MetricsCollector } from './metrics';
 
 export interface DetectorConfig {
   enabled: boolean;
   severity?: string;
   thresholds?: Record<string, number>;
+  rules?: Record<string, boolean>;
 }
 
 export interface ParsedFile {
@@ -32,6 +37,10 @@ export abstract class BaseDetector {
     return this.config.thresholds?.[key] ?? defaultValue;
   }
 
+  protected isRuleEnabled(key: string): boolean {
+    return this.config.rules?.[key] !== false;
+  }
+
   protected createLocation(file: ParsedFile, node: any): IssueLocation {
     return {
       file: file.path,
@@ -57,8 +66,12 @@ export abstract class BaseDetector {
       .join('\n');
   }
 
-  protected generateIssueId(): string {
-    return `${this.detectorName}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  protected generateFingerprint(file: ParsedFile, rule: string, location: IssueLocation): string {
+    return Fingerprint.compute(rule, location, file);
+  }
+
+  protected generateIssueId(fingerprint: string, location: IssueLocation): string {
+    return `${this.detectorName}_${fingerprint}_${location.line}_${location.column}`;
   }
 
   getName(): string {
@@ -72,4 +85,48 @@ export abstract class BaseDetector {
   updateConfig(newConfig: Partial<DetectorConfig>): void {
     this.config = { ...this.config, ...newConfig };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Detector que registra visitantes no motor de travessia compartilhado em vez
+ * de percorrer a AST por conta própria. O SourceAnalyzer junta as passadas de
+ * todos os detectores em uma única travessia por arquivo; detect() continua
+ * disponível para quem usa o detector isoladamente.
+ */
+export abstract class VisitorDetector extends BaseDetector {
+  /** Nome da análise nos avisos de falha, ex.: "complexidade". */
+  protected abstract readonly analysisName: string;
+
+  /**
+   * Retorna null quando o detector está desativado. Métricas por função vão
+   * para `metrics`; detectores que só geram problemas podem ignorá-lo.
+   */
+  abstract createPass(file: ParsedFile, issues: Issue[], metrics: MetricsCollector): DetectorPass | null;
+
+  detect(file: ParsedFile): Issue[] {
+    const issues: Issue[] = [];
+    const pass = this.createPass(file, issues, new MetricsCollector());
+    if (!pass) return issues;
+
+    const { failures } = AstTraversal.run(file.ast, [{ name: this.detectorName, pass }]);
+    failures.forEach(error => this.reportFailure(file, error));
+
+    return issues;
+  }
+
+  reportFailure(file: ParsedFile, error: Error): void {
+    console.warn(`Análise de ${this.analysisName} falhou para ${file.path}:`, error);
+  }
+
+  /** Ignora identificadores declarados localmente com o mesmo nome, quando há escopo. */
+  protected isGlobalReference(path: NodePath, node: any, name: string): boolean {
+    return node?.type === 'Identifier' && node.name === name && !path.scope?.hasBinding(name, true);
+  }
+
+  /** Nome do elemento JSX como aparece no código: div, Menu.Item, svg:rect. */
+  protected getElementName(name: any): string {
+    if (name.type === 'JSXMemberExpression') return `${this.getElementName(name.object)}.${name.property.name}`;
+    if (name.type === 'JSXNamespacedName') return `${name.namespace.name}:${name.name.name}`;
+    return name.name;
+  }
+}
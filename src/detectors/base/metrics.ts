@@ -0,0 +1,47 @@
+import { FunctionMetrics, FileMetrics } from '../../models/report';
+
+type FunctionValues = Omit<FunctionMetrics, 'name' | 'line' | 'column' | 'endLine'>;
+type FileValues = Omit<FileMetrics, 'functions'>;
+
+/**
+ * Reúne as métricas que os detectores calculam durante a travessia, por
+ * função e para o arquivo inteiro. Detectores diferentes podem registrar
+ * valores para a mesma função; eles são mesclados pela posição do nó.
+ */
+export class MetricsCollector {
+  private functions = new Map<string, FunctionMetrics>();
+  private file: FileValues = {};
+
+  recordFunction(node: any, name: string, values: FunctionValues): void {
+    const line = node.loc?.start?.line ?? 1;
+    const column = node.loc?.start?.column ?? 0;
+    const key = `${line}:${column}`;
+
+    const existing = this.functions.get(key);
+    if (existing) {
+      Object.assign(existing, values);
+      return;
+    }
+
+    this.functions.set(key, {
+      name,
+      line,
+      column,
+      endLine: node.loc?.end?.line ?? line,
+      ...values
+    });
+  }
+
+  recordFile(values: FileValues): void {
+    Object.assign(this.file, values);
+  }
+
+  getFunctions(): FunctionMetrics[] {
+    return Array.from(this.functions.values())
+      .sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  getMetrics(): FileMetrics {
+    return { ...this.file, functions: this.getFunctions() };
+  }
+}
@@ -0,0 +1,109 @@
+import traverse, { Visitor, NodePath } from '@babel/traverse';
+import { performance } from 'perf_hooks';
+
+/**
+ * O que um detector entrega ao motor de travessia para um arquivo: os
+ * visitantes por tipo de nó e, opcionalmente, o que fazer depois que a AST
+ * inteira foi percorrida (métricas de arquivo, por exemplo).
+ */
+export interface DetectorPass {
+  visitor: Visitor;
+  finish?: () => void;
+}
+
+export interface TraversalParticipant {
+  name: string;
+  pass: DetectorPass;
+}
+
+export interface TraversalResult {
+  /** Milissegundos gastos nos visitantes e no finish de cada participante. */
+  timings: Record<string, number>;
+  /** Primeiro erro de cada participante que falhou; os demais seguem normalmente. */
+  failures: Map<string, Error>;
+}
+
+export interface TraversalOptions {
+  /** Chamado a cada CHECKPOINT_INTERVAL nós; um erro lançado aqui interrompe a travessia. */
+  checkpoint?: () => void;
+}
+
+/**
+ * Percorre a AST uma única vez com os visitantes de todos os participantes
+ * mesclados. Cada participante é isolado: um erro no visitante de um detector
+ * desativa só aquele detector para o arquivo. Os visitantes não devem chamar
+ * skip, stop nem alterar a árvore, porque o caminho é compartilhado.
+ *
+ * Em arquivos com erros de sintaxe recuperados pelo parser o escopo pode ser
+ * inconsistente (uma declaração duplicada faz o Babel abortar a travessia),
+ * então eles são percorridos sem escopo e `path.scope` fica indefinido.
+ */
+export class AstTraversal {
+  private static readonly CHECKPOINT_INTERVAL = 500;
+
+  static run(ast: any, participants: TraversalParticipant[], options: TraversalOptions = {}): TraversalResult {
+    const timings: Record<string, number> = {};
+    const failures = new Map<string, Error>();
+
+    participants.forEach(({ name }) => {
+      timings[name] = 0;
+    });
+
+    const guard = (name: string, run: () => void): void => {
+      if (failures.has(name)) return;
+
+      const start = performance.now();
+      try {
+        run();
+      } catch (error) {
+        failures.set(name, error as Error);
+      } finally {
+        timings[name] += performance.now() - start;
+      }
+    };
+
+    const visitors: Visitor[] = participants.map(({ pass }) => pass.visitor);
+    const states: Array<{ key: string }> = participants.map(({ name }) => ({ key: name }));
+    let aborted: unknown = null;
+
+    if (options.checkpoint) {
+      const checkpoint = options.checkpoint;
+      let visited = 0;
+
+      visitors.push({
+        enter: () => {
+          if (++visited % AstTraversal.CHECKPOINT_INTERVAL !== 0) return;
+          try {
+            checkpoint();
+          } catch (error) {
+            aborted = error;
+            throw error;
+          }
+        }
+      });
+      states.push({ key: '' });
+    }
+
+    const merged = traverse.visitors.merge(visitors, states, (name, _phase, visit) => {
+      if (!name) return visit;
+      return (path: NodePath) => guard(name, () => visit.call(undefined, path, undefined));
+    });
+
+    try {
+      traverse(ast, { ...merged, noScope: ast.errors?.length > 0 });
+    } catch (error) {
+      if (aborted) throw aborted;
+
+      // Falha do próprio Babel (ex.: declarações duplicadas em código inválido)
+      participants.forEach(({ name }) => {
+        if (!failures.has(name)) failures.set(name, error as Error);
+      });
+    }
+
+    participants.forEach(({ name, pass }) => {
+      if (pass.finish) guard(name, pass.finish);
+    });
+
+    return { timings, failures };
+  }
+}
@@ -1,8 +1,22 @@
 import { BaseDetector } from './base/detector';
 import { ComplexityDetector } from './javascript/complexity';
+import { MaintainabilityDetector } from './javascript/maintainability';
 import { NamingDetector } from './javascript/naming';
 import { SizeDetector } from './javascript/size';
 import { DuplicationDetector } from './javascript/duplication-detector';
+import { BestPracticesDetector } from './javascript/best-practices';
+import { UnusedCodeDetector } from './javascript/unused';
+import { DeadCodeDetector } from './javascript/dead-code';
+import { AsyncDetector } from './javascript/async';
+import { ErrorHandlingDetector } from './javascript/error-handling';
+import { SecurityDetector } from './javascript/security';
+import { SecretsDetector } from './javascript/secrets';
+import { TypeSafetyDetector } from './javascript/type-safety';
+import { ReactDetector } from './javascript/react';
+import { AccessibilityDetector } from './javascript/accessibility';
+import { MagicValuesDetector } from './javascript/magic-values';
+import { LoadedPlugin, DetectorInfo } from './plugin-loader';
+import { IssueSeverity } from '../models/issue';
 import { createLogger } from '../utils/logger';
 
 export interface DetectorRegistry {
@@ -11,16 +25,117 @@ export interface DetectorRegistry {
 
 export const JavaScriptDetectors: DetectorRegistry = {
   complexity: ComplexityDetector,
+  maintainability: MaintainabilityDetector,
   naming: NamingDetector,
   size: SizeDetector,
-  duplication: DuplicationDetector
+  duplication: DuplicationDetector,
+  bestPractices: BestPracticesDetector,
+  unused: UnusedCodeDetector,
+  deadCode: DeadCodeDetector,
+  async: AsyncDetector,
+  errorHandling: ErrorHandlingDetector,
+  security: SecurityDetector,
+  secrets: SecretsDetector,
+  typeSafety: TypeSafetyDetector,
+  react: ReactDetector,
+  accessibility: AccessibilityDetector,
+  magicValues: MagicValuesDetector
+};
+
+export interface RuleMetadata {
+  id: string;
+  title: string;
+  description: string;
+  suggestion?: string;
+  severity?: IssueSeverity;
+}
+
+interface RuleText {
+  title: string;
+  suggestion: string;
+  description?: string;
+}
+
+type RuleTable = Record<string, RuleText & { id: string; severity: IssueSeverity }>;
+
+/**
+ * Textos das regras cujos detectores montam título e sugestão com dados da
+ * ocorrência (valores medidos, nome do identificador) e por isso não têm RULES.
+ */
+const CoreRuleTexts: Record<string, RuleText> = {
+  'complexidade-ciclomatica': {
+    title: 'Alta complexidade ciclomática',
+    suggestion: 'Considere dividir esta função em funções menores e mais focadas. Extraia blocos lógicos em funções separadas para melhorar a legibilidade e manutenibilidade.'
+  },
+  'complexidade-cognitiva': {
+    title: 'Alta complexidade cognitiva',
+    suggestion: 'Reduza o aninhamento com retornos antecipados (guard clauses), extraia condições compostas em funções com nomes descritivos e mova blocos internos de laços e condicionais para funções próprias.'
+  },
+  'complexidade-arquivo': {
+    title: 'Alta complexidade do arquivo',
+    suggestion: 'Considere dividir este arquivo em múltiplos arquivos menores. Agrupe funções relacionadas e extraia-as em módulos separados.'
+  },
+  'profundidade-aninhamento': {
+    title: 'Aninhamento profundo',
+    suggestion: 'Use retornos antecipados (guard clauses) para eliminar níveis, inverta condições e extraia o corpo de laços e condicionais internos para funções com nomes descritivos.'
+  },
+  'aninhamento-callbacks': {
+    title: 'Pirâmide de callbacks',
+    suggestion: 'Achate a pirâmide com async/await ou encadeamento de Promises, ou dê nome aos callbacks internos e declare-os fora da chamada.'
+  },
+  'indice-manutenibilidade': {
+    title: 'Baixa manutenibilidade',
+    suggestion: 'Divida a função em partes menores, reduza os pontos de decisão e dê nome a expressões longas com variáveis intermediárias. Cada um desses fatores pesa no índice.'
+  },
+  'indice-manutenibilidade-arquivo': {
+    title: 'Arquivo com baixa manutenibilidade',
+    suggestion: 'Comece pelas funções com o índice mais baixo: divida-as e reduza os pontos de decisão. Se o arquivo concentra responsabilidades demais, separe-o em módulos.'
+  },
+  'convencao-nomenclatura': {
+    title: 'Nomenclatura inadequada',
+    suggestion: 'Siga convenções padrão de nomenclatura para melhor legibilidade e manutenibilidade do código.'
+  },
+  'tamanho-arquivo': {
+    title: 'Arquivo grande',
+    suggestion: 'Considere dividir este arquivo em módulos menores e mais focados. Agrupe funções relacionadas e extraia-as em módulos separados.'
+  },
+  'funcao-linhas': {
+    title: 'Função grande',
+    suggestion: 'Divida esta função em funções menores e mais focadas. Extraia blocos lógicos em funções separadas com nomes descritivos.'
+  },
+  'funcao-parâmetros': {
+    title: 'Função com muitos parâmetros',
+    suggestion: 'Reduza o número de parâmetros agrupando parâmetros relacionados em objetos, usando objetos de configuração, ou dividindo a função em funções menores.'
+  },
+  'tamanho-classe': {
+    title: 'Classe grande',
+    suggestion: 'Considere dividir esta classe em classes menores e mais focadas. Aplique o Princípio da Responsabilidade Única.'
+  },
+  'tamanho-metodo': {
+    title: 'Método grande',
+    suggestion: 'Considere dividir este método em métodos menores e mais focados. Extraia blocos lógicos em métodos privados com nomes descritivos.'
+  },
+  'codigo-duplicado': {
+    title: 'Código duplicado detectado',
+    suggestion: 'Extraia o código duplicado em uma função ou módulo reutilizável. Considere criar uma função utilitária que possa ser importada em ambos os locais.'
+  },
+  // Emitida pelo filtro de supressões, não por um detector
+  'supressao-nao-utilizada': {
+    title: 'Diretiva de supressão não utilizada',
+    description: 'Aponta diretivas revisor-disable que não suprimiram nenhum problema',
+    suggestion: 'Remova a diretiva ou corrija o nome da regra. Diretivas obsoletas escondem problemas futuros sem necessidade.'
+  }
 };
 
 export const DefaultDetectorConfig = {
   javascript: {
     complexity: {
       enabled: true,
-      thresholds: { function: 10, file: 20 }
+      thresholds: { function: 10, file: 20, cognitive: 15, nesting: 4, callbacks: 3 }
+    },
+    maintainability: {
+      enabled: true,
+      thresholds: { function: 20, file: 20 }
     },
     naming: {
       enabled: true,
@@ -34,12 +149,138 @@ export const DefaultDetectorConfig = {
     duplication: {
       enabled: true,
       thresholds: { minLines: 6, minTokens: 50, similarityThreshold: 0.85 }
+    },
+    bestPractices: {
+      enabled: true,
+      rules: { debugger: true, console: true, looseEquality: true, varDeclaration: true, withStatement: true }
+    },
+    unused: {
+      enabled: true,
+      rules: { variables: true, parameters: true, imports: true, privateMembers: true },
+      ignorePattern: '^_'
+    },
+    deadCode: {
+      enabled: true,
+      rules: { unreachable: true, constantCondition: true, emptyBlock: true, emptyFunction: true, duplicateCondition: true }
+    },
+    async: {
+      enabled: true,
+      rules: { asyncWithoutAwait: true, floatingPromise: true, awaitInLoop: true, promiseConstructor: true, mixedThenAwait: true }
+    },
+    errorHandling: {
+      enabled: true,
+      thresholds: { wrappedStatements: 5 },
+      rules: {
+        emptyCatch: true,
+        catchOnlyLogs: true,
+        throwLiteral: true,
+        catchParamIgnored: true,
+        catchParamShadowed: true,
+        rethrowWithoutCause: true,
+        tryWrapsFunction: true
+      }
+    },
+    security: {
+      enabled: true,
+      rules: { dynamicCode: true, stringTimer: true, domHtml: true, reactHtml: true, commandInjection: true, fsUserInput: true }
+    },
+    secrets: {
+      enabled: true,
+      thresholds: { minLength: 20, entropy: 4 },
+      rules: { privateKey: true, awsKey: true, jwt: true, serviceToken: true, passwordAssignment: true, highEntropy: true },
+      allowlist: { paths: [] as string[], patterns: [] as string[] }
+    },
+    typeSafety: {
+      enabled: true,
+      thresholds: { explicitAny: 0, asAny: 0, nonNullAssertion: 0, tsComment: 0, doubleCast: 0, missingReturnType: 0, bannedTypes: 0 },
+      rules: { explicitAny: true, asAny: true, nonNullAssertion: true, tsComment: true, doubleCast: true, missingReturnType: true, bannedTypes: true }
+    },
+    react: {
+      enabled: true,
+      thresholds: { jsxLines: 100, props: 8 },
+      rules: {
+        conditionalHook: true,
+        nestedHook: true,
+        hookOutsideComponent: true,
+        effectWithoutDeps: true,
+        largeComponent: true,
+        tooManyProps: true,
+        inlineListProps: true,
+        missingKey: true
+      }
+    },
+    accessibility: {
+      enabled: true,
+      rules: { imgAlt: true, clickWithoutKeyboard: true, anchorHref: true, inputLabel: true, positiveTabIndex: true }
+    },
+    magicValues: {
+      enabled: true,
+      thresholds: { fileStrings: 3, projectStrings: 10, minStringLength: 3 },
+      rules: { magicNumbers: true, repeatedStrings: true, projectRepeatedStrings: true },
+      allowlist: { numbers: [0, 1, -1, 2], strings: [] as string[] }
     }
   }
 };
 
 const detectorsLogger = createLogger('DetectorManager');
 let duplicationDetectorInstance: DuplicationDetector | null = null;
+let magicValuesDetectorInstance: MagicValuesDetector | null = null;
+let registeredPlugins: LoadedPlugin[] = [];
+
+/**
+ * Substitui os plugins registrados. Um nome de detector já usado por um
+ * detector nativo ou por outro plugin é rejeitado com erro.
+ */
+export function registerPlugins(plugins: LoadedPlugin[]): void {
+  const owners = new Map<string, string>(
+    Object.keys(JavaScriptDetectors).map(name => [name, 'detectores nativos'])
+  );
+
+  plugins.forEach(plugin => {
+    Object.keys(plugin.detectors).forEach(detectorName => {
+      const owner = owners.get(detectorName);
+      if (owner) {
+        throw new Error(`Plugin "${plugin.specifier}" registra o detector "${detectorName}", já definido por ${owner}`);
+      }
+      owners.set(detectorName, `plugin "${plugin.specifier}"`);
+    });
+  });
+
+  registeredPlugins = plugins;
+
+  if (plugins.length > 0) {
+    detectorsLogger.debug('Plugins registrados', {
+      plugins: plugins.map(plugin => plugin.name),
+      detectors: plugins.flatMap(plugin => Object.keys(plugin.detectors))
+    });
+  }
+}
+
+export function getRegisteredPlugins(): LoadedPlugin[] {
+  return [...registeredPlugins];
+}
+
+function getDetectorRegistry(): DetectorRegistry {
+  const registry: DetectorRegistry = { ...JavaScriptDetectors };
+
+  registeredPlugins.forEach(plugin => {
+    Object.entries(plugin.detectors).forEach(([detectorName, definition]) => {
+      registry[detectorName] = definition.detector;
+    });
+  });
+
+  return registry;
+}
+
+function findPluginDetectorInfo(detectorName: string): DetectorInfo | null {
+  for (const plugin of registeredPlugins) {
+    const definition = plugin.detectors[detectorName];
+    if (definition) {
+      return { ...definition.info, defaultConfig: definition.info.defaultConfig ?? { enabled: true } };
+    }
+  }
+  return null;
+}
 
 export function createDetectorsForLanguage(language: string, config?: any): BaseDetector[] {
   const detectors: BaseDetector[] = [];
@@ -55,8 +296,8 @@ export function createDetectorsForLanguage(language: string, config?: any): Base
         .map(([name]) => name)
     });
     
-    Object.entries(JavaScriptDetectors).forEach(([name, DetectorClass]) => {
-      const detectorConfig = jsConfig[name];
+    Object.entries(getDetectorRegistry()).forEach(([name, DetectorClass]) => {
+      const detectorConfig = jsConfig[name] ?? findPluginDetectorInfo(name)?.defaultConfig;
       
       if (detectorConfig?.enabled !== false) {
         try {
@@ -68,6 +309,14 @@ export function createDetectorsForLanguage(language: string, config?: any): Base
               detectorsLogger.debug('Reutilizando instância de detector de duplicação');
             }
             detectors.push(duplicationDetectorInstance);
+          } else if (name === 'magicValues') {
+            if (!magicValuesDetectorInstance) {
+              magicValuesDetectorInstance = new DetectorClass(detectorConfig) as MagicValuesDetector;
+              detectorsLogger.debug('Nova instância de detector de valores mágicos criada');
+            } else {
+              detectorsLogger.debug('Reutilizando instância de detector de valores mágicos');
+            }
+            detectors.push(magicValuesDetectorInstance);
           } else {
             detectors.push(new DetectorClass(detectorConfig));
           }
@@ -100,7 +349,7 @@ export function createDetectorsForLanguage(language: string, config?: any): Base
 
 export function getAvailableDetectors(language: string): string[] {
   if (language === 'javascript' || language === 'typescript') {
-    return Object.keys(JavaScriptDetectors);
+    return Object.keys(getDetectorRegistry());
   }
   
   return [];
@@ -108,7 +357,7 @@ export function getAvailableDetectors(language: string): string[] {
 
 export function createDetectorByName(language: string, detectorName: string, config?: any): BaseDetector | null {
   if (language === 'javascript' || language === 'typescript') {
-    const DetectorClass = JavaScriptDetectors[detectorName];
+    const DetectorClass = getDetectorRegistry()[detectorName];
     if (DetectorClass) {
       try {
         if (detectorName === 'duplication') {
@@ -116,6 +365,11 @@ export function createDetectorByName(language: string, detectorName: string, con
             duplicationDetectorInstance = new DetectorClass(config) as DuplicationDetector;
           }
           return duplicationDetectorInstance;
+        } else if (detectorName === 'magicValues') {
+          if (!magicValuesDetectorInstance) {
+            magicValuesDetectorInstance = new DetectorClass(config) as MagicValuesDetector;
+          }
+          return magicValuesDetectorInstance;
         } else {
           return new DetectorClass(config);
         }
@@ -147,45 +401,173 @@ export function getDuplicationStats(): { totalBlocks: number; processedFiles: nu
   return null;
 }
 
-export function getDetectorInfo(detectorName: string): {
-  name: string;
-  description: string;
-  category: string;
-  defaultConfig: any;
-} | null {
+export function resetMagicValuesDetector(): void {
+  if (magicValuesDetectorInstance) {
+    magicValuesDetectorInstance.reset();
+    detectorsLogger.debug('Detector de valores mágicos resetado');
+  }
+}
+
+export function getRepeatedStringStats(): { distinctStrings: number; processedFiles: number } | null {
+  if (magicValuesDetectorInstance) {
+    return magicValuesDetectorInstance.getStats();
+  }
+  return null;
+}
+
+export function getDetectorInfo(detectorName: string): DetectorInfo | null {
   const detectorInfo = {
     complexity: {
-      name: 'Complexidade Ciclomática',
-      description: 'Detecta funções e arquivos com alta complexidade ciclomática',
+      name: 'Complexidade',
+      description: 'Detecta funções e arquivos com alta complexidade ciclomática ou cognitiva, aninhamento profundo e pirâmides de callbacks',
       category: 'Qualidade de Código',
-      defaultConfig: DefaultDetectorConfig.javascript.complexity
+      defaultConfig: DefaultDetectorConfig.javascript.complexity,
+      rules: ['complexidade-ciclomatica', 'complexidade-cognitiva', 'complexidade-arquivo', 'profundidade-aninhamento', 'aninhamento-callbacks']
+    },
+    maintainability: {
+      name: 'Manutenibilidade',
+      description: 'Calcula as métricas de Halstead e o índice de manutenibilidade de funções e arquivos',
+      category: 'Manutenibilidade',
+      defaultConfig: DefaultDetectorConfig.javascript.maintainability,
+      rules: ['indice-manutenibilidade', 'indice-manutenibilidade-arquivo']
     },
     naming: {
       name: 'Convenções de Nomenclatura',
       description: 'Verifica se identificadores seguem convenções padrão',
       category: 'Legibilidade',
-      defaultConfig: DefaultDetectorConfig.javascript.naming
+      defaultConfig: DefaultDetectorConfig.javascript.naming,
+      rules: ['convencao-nomenclatura']
     },
     size: {
       name: 'Tamanho de Componentes',
       description: 'Identifica arquivos, funções e classes muito grandes',
       category: 'Manutenibilidade',
-      defaultConfig: DefaultDetectorConfig.javascript.size
+      defaultConfig: DefaultDetectorConfig.javascript.size,
+      rules: ['tamanho-arquivo', 'funcao-linhas', 'funcao-parâmetros', 'tamanho-classe', 'tamanho-metodo']
     },
     duplication: {
       name: 'Código Duplicado',
       description: 'Encontra blocos de código similares ou duplicados',
       category: 'Manutenibilidade',
-      defaultConfig: DefaultDetectorConfig.javascript.duplication
+      defaultConfig: DefaultDetectorConfig.javascript.duplication,
+      rules: ['codigo-duplicado']
+    },
+    bestPractices: {
+      name: 'Boas Práticas',
+      description: 'Sinaliza debugger, console esquecido, igualdade frouxa, var e with',
+      category: 'Qualidade de Código',
+      defaultConfig: DefaultDetectorConfig.javascript.bestPractices,
+      rules: Object.values(BestPracticesDetector.RULES).map(rule => rule.id)
+    },
+    unused: {
+      name: 'Código Não Usado',
+      description: 'Aponta variáveis, parâmetros, imports e membros privados declarados e nunca usados',
+      category: 'Manutenibilidade',
+      defaultConfig: DefaultDetectorConfig.javascript.unused,
+      rules: Object.values(UnusedCodeDetector.RULES).map(rule => rule.id)
+    },
+    deadCode: {
+      name: 'Código Morto',
+      description: 'Encontra código inalcançável, condições constantes ou repetidas e blocos e funções vazios',
+      category: 'Manutenibilidade',
+      defaultConfig: DefaultDetectorConfig.javascript.deadCode,
+      rules: Object.values(DeadCodeDetector.RULES).map(rule => rule.id)
+    },
+    async: {
+      name: 'Async e Promises',
+      description: 'Aponta async sem await, promises soltas, await em laço, new Promise desnecessário e .then misturado com await',
+      category: 'Qualidade de Código',
+      defaultConfig: DefaultDetectorConfig.javascript.async,
+      rules: Object.values(AsyncDetector.RULES).map(rule => rule.id)
+    },
+    errorHandling: {
+      name: 'Tratamento de Erros',
+      description: 'Aponta catch vazio ou que só loga, throw de literais, erro capturado ignorado ou sombreado, novo erro sem cause e try em volta da função inteira',
+      category: 'Qualidade de Código',
+      defaultConfig: DefaultDetectorConfig.javascript.errorHandling,
+      rules: Object.values(ErrorHandlingDetector.RULES).map(rule => rule.id)
+    },
+    security: {
+      name: 'Segurança',
+      description: 'Aponta eval, timers com string, HTML injetado no DOM, comandos de shell montados com strings e acesso a arquivos com caminho vindo do usuário',
+      category: 'Segurança',
+      defaultConfig: DefaultDetectorConfig.javascript.security,
+      rules: Object.values(SecurityDetector.RULES).map(rule => rule.id)
+    },
+    secrets: {
+      name: 'Segredos',
+      description: 'Procura chaves privadas, chaves AWS, JWTs, tokens de serviços, senhas atribuídas e strings de alta entropia no código',
+      category: 'Segurança',
+      defaultConfig: DefaultDetectorConfig.javascript.secrets,
+      rules: Object.values(SecretsDetector.RULES).map(rule => rule.id)
+    },
+    typeSafety: {
+      name: 'Segurança de Tipos',
+      description: 'Aponta any, as any, asserções !, @ts-ignore sem explicação, casts duplos, funções exportadas sem tipo de retorno e os tipos Function/Object em arquivos TypeScript',
+      category: 'Qualidade de Código',
+      defaultConfig: DefaultDetectorConfig.javascript.typeSafety,
+      rules: Object.values(TypeSafetyDetector.RULES).map(rule => rule.id)
+    },
+    react: {
+      name: 'React',
+      description: 'Verifica as regras dos hooks, efeitos sem dependências, componentes grandes ou com props demais, objetos inline em listas e itens de lista sem key',
+      category: 'Qualidade de Código',
+      defaultConfig: DefaultDetectorConfig.javascript.react,
+      rules: Object.values(ReactDetector.RULES).map(rule => rule.id)
+    },
+    accessibility: {
+      name: 'Acessibilidade',
+      description: 'Aponta em JSX imagens sem alt, cliques em elementos não interativos sem role e teclado, links sem href, campos sem label e tabIndex positivo',
+      category: 'Acessibilidade',
+      defaultConfig: DefaultDetectorConfig.javascript.accessibility,
+      rules: Object.values(AccessibilityDetector.RULES).map(rule => rule.id)
+    },
+    magicValues: {
+      name: 'Valores Mágicos',
+      description: 'Aponta números sem nome fora de constantes, enums e valores padrão, e strings repetidas no arquivo ou no projeto',
+      category: 'Manutenibilidade',
+      defaultConfig: DefaultDetectorConfig.javascript.magicValues,
+      rules: Object.values(MagicValuesDetector.RULES).map(rule => rule.id)
     }
   };
 
-  return detectorInfo[detectorName as keyof typeof detectorInfo] || null;
+  return detectorInfo[detectorName as keyof typeof detectorInfo] || findPluginDetectorInfo(detectorName);
+}
+
+/**
+ * Metadados de uma regra, independentes de qualquer ocorrência: título e
+ * sugestão vêm de RULES (ou de CoreRuleTexts) e a descrição, do detector.
+ * Plugins sem RULES usam o nome e a descrição do próprio detector.
+ */
+export function getRuleMetadata(ruleId: string): RuleMetadata | null {
+  for (const [detectorName, DetectorClass] of Object.entries(getDetectorRegistry())) {
+    const info = getDetectorInfo(detectorName);
+    if (!info?.rules.includes(ruleId)) continue;
+
+    const table = (DetectorClass as unknown as { RULES?: RuleTable }).RULES;
+    const definition = table ? Object.values(table).find(rule => rule.id === ruleId) : undefined;
+    const text = definition ?? CoreRuleTexts[ruleId];
+
+    return {
+      id: ruleId,
+      title: text?.title ?? info.name,
+      description: info.description,
+      suggestion: text?.suggestion,
+      severity: definition?.severity
+    };
+  }
+
+  const text = CoreRuleTexts[ruleId];
+  if (text?.description) {
+    return { id: ruleId, title: text.title, description: text.description, suggestion: text.suggestion };
+  }
+
+  return null;
 }
 
 export function validateDetectorConfig(detectorName: string, config: any): boolean {
   try {
-    const DetectorClass = JavaScriptDetectors[detectorName];
+    const DetectorClass = getDetectorRegistry()[detectorName];
     if (!DetectorClass) return false;
 
     new DetectorClass(config);
@@ -206,8 +588,9 @@ export function getDetectorMetrics(): {
   detectorsByCategory: Record<string, string[]>;
 } {
   const detectorsByCategory: Record<string, string[]> = {};
+  const detectorNames = Object.keys(getDetectorRegistry());
   
-  Object.keys(JavaScriptDetectors).forEach(detectorName => {
+  detectorNames.forEach(detectorName => {
     const info = getDetectorInfo(detectorName);
     if (info) {
       if (!detectorsByCategory[info.category]) {
@@ -218,15 +601,30 @@ export function getDetectorMetrics(): {
   });
 
   return {
-    totalDetectors: Object.keys(JavaScriptDetectors).length,
+    totalDetectors: detectorNames.length,
     availableLanguages: ['javascript', 'typescript'],
     detectorsByCategory
   };
 }
 
 // Re-export for convenience
-export { BaseDetector } from './base/detector';
+export { BaseDetector, VisitorDetector } from './base/detector';
+export { DetectorPass } from './base/traversal';
+export { MetricsCollector } from './base/metrics';
 export { ComplexityDetector } from './javascript/complexity';
+export { MaintainabilityDetector } from './javascript/maintainability';
 export { NamingDetector } from './javascript/naming';
 export { SizeDetector } from './javascript/size';
-export { DuplicationDetector } from './javascript/duplication-detector';
\ No newline at end of file
+export { DuplicationDetector } from './javascript/duplication-detector';
+export { BestPracticesDetector } from './javascript/best-practices';
+export { UnusedCodeDetector } from './javascript/unused';
+export { DeadCodeDetector } from './javascript/dead-code';
+export { AsyncDetector } from './javascript/async';
+export { ErrorHandlingDetector } from './javascript/error-handling';
+export { SecurityDetector } from './javascript/security';
+export { SecretsDetector, SecretMask } from './javascript/secrets';
+export { TypeSafetyDetector } from './javascript/type-safety';
+export { ReactDetector } from './javascript/react';
+export { AccessibilityDetector } from './javascript/accessibility';
+export { MagicValuesDetector } from './javascript/magic-values';
+export { loadPlugins, LoadedPlugin, DetectorInfo, PluginApi, RevisorPlugin } from './plugin-loader';
\ No newline at end of file
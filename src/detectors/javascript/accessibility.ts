@@ -0,0 +1,248 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface AccessibilityConfig {
+  enabled: boolean;
+  rules: {
+    imgAlt: boolean;
+    clickWithoutKeyboard: boolean;
+    anchorHref: boolean;
+    inputLabel: boolean;
+    positiveTabIndex: boolean;
+  };
+}
+
+type AccessibilityRule = keyof AccessibilityConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+interface FormField {
+  node: any;
+  tag: string;
+  id: string | null;
+}
+
+const JSX_FILE = /\.[jt]sx$/i;
+
+/** Elementos do DOM que já recebem foco e respondem ao teclado. */
+const INTERACTIVE_ELEMENTS = new Set(['a', 'button', 'input', 'select', 'textarea', 'option', 'summary']);
+const FORM_FIELDS = new Set(['input', 'select', 'textarea']);
+/** Tipos de input que não precisam de label: têm texto próprio ou não aparecem. */
+const UNLABELED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+const KEYBOARD_HANDLERS = ['onKeyDown', 'onKeyUp', 'onKeyPress'];
+const LABEL_ATTRIBUTES = ['aria-label', 'aria-labelledby', 'title'];
+const INVALID_HREF = /^(#|javascript:)/i;
+
+export class AccessibilityDetector extends VisitorDetector {
+  protected readonly analysisName = 'acessibilidade';
+
+  private defaultConfig: AccessibilityConfig = {
+    enabled: true,
+    rules: {
+      imgAlt: true,
+      clickWithoutKeyboard: true,
+      anchorHref: true,
+      inputLabel: true,
+      positiveTabIndex: true
+    }
+  };
+
+  static readonly RULES: Record<AccessibilityRule, RuleDefinition> = {
+    imgAlt: {
+      id: 'img-sem-alt',
+      severity: IssueSeverity.HIGH,
+      title: 'Imagem sem texto alternativo',
+      suggestion: 'Adicione alt descrevendo o conteúdo da imagem. Para imagens só decorativas, use alt="" para que leitores de tela as ignorem.'
+    },
+    clickWithoutKeyboard: {
+      id: 'clique-sem-teclado',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Clique em elemento não interativo',
+      suggestion: 'Prefira um <button>, que já recebe foco e responde ao Enter e ao espaço. Se precisar manter o elemento, adicione role, tabIndex={0} e um onKeyDown que faça a mesma ação do clique.'
+    },
+    anchorHref: {
+      id: 'link-sem-href',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Link sem destino válido',
+      suggestion: 'Dê ao <a> um href real. Se o elemento só dispara uma ação, use <button>: um <a> sem href não recebe foco pelo teclado nem é anunciado como link.'
+    },
+    inputLabel: {
+      id: 'campo-sem-label',
+      severity: IssueSeverity.HIGH,
+      title: 'Campo de formulário sem label',
+      suggestion: 'Associe um <label htmlFor="id-do-campo">, envolva o campo com <label> ou use aria-label/aria-labelledby. Placeholder não substitui o label.'
+    },
+    positiveTabIndex: {
+      id: 'tabindex-positivo',
+      severity: IssueSeverity.MEDIUM,
+      title: 'tabIndex maior que zero',
+      suggestion: 'Use tabIndex={0} para incluir o elemento na ordem natural de foco ou -1 para foco só via código. Valores positivos mudam a ordem de navegação da página inteira.'
+    }
+  };
+
+  constructor(config?: Partial<AccessibilityConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled() || !JSX_FILE.test(file.path)) return null;
+
+    const fields: FormField[] = [];
+    const labelTargets = new Set<string>();
+    let hasDynamicLabelTarget = false;
+
+    return {
+      visitor: {
+        JSXOpeningElement: path => {
+          const node: any = path.node;
+          this.checkTabIndex(file, node, issues);
+
+          // Com spread, qualquer atributo pode vir de dentro do objeto
+          const hasSpread = node.attributes.some((attribute: any) => attribute.type === 'JSXSpreadAttribute');
+          if (hasSpread || node.name.type !== 'JSXIdentifier' || !/^[a-z]/.test(node.name.name)) return;
+
+          const tag = node.name.name;
+
+          if (tag === 'label') {
+            const target = this.getAttribute(node, 'htmlFor');
+            const value = target && this.getStaticValue(target);
+            if (typeof value === 'string') labelTargets.add(value);
+            else if (target) hasDynamicLabelTarget = true;
+          }
+
+          if (tag === 'img') this.checkImage(file, node, issues);
+          if (tag === 'a') this.checkAnchor(file, node, issues);
+          if (!INTERACTIVE_ELEMENTS.has(tag)) this.checkClick(file, node, tag, issues);
+
+          if (FORM_FIELDS.has(tag) && this.needsLabel(node, tag) && !this.isInsideLabel(path)) {
+            const id = this.getAttribute(node, 'id');
+            const value = id ? this.getStaticValue(id) : null;
+            // id calculado não dá para comparar com os htmlFor do arquivo
+            if (id && typeof value !== 'string') return;
+            fields.push({ node, tag, id: value as string | null });
+          }
+        }
+      },
+      finish: () => {
+        if (!this.isRuleEnabled('inputLabel')) return;
+
+        fields
+          .filter(field => !(field.id && labelTargets.has(field.id)) && !(field.id && hasDynamicLabelTarget))
+          .forEach(field => {
+            const detail = field.id ? ` (id "${field.id}")` : '';
+            issues.push(this.createIssue(file, field.node, 'inputLabel', `<${field.tag}>${detail} não tem label associado nem aria-label.`));
+          });
+
+        issues.sort((a, b) => a.location.line - b.location.line || a.location.column - b.location.column);
+      }
+    };
+  }
+
+  private checkImage(file: ParsedFile, node: any, issues: Issue[]): void {
+    if (!this.getAttribute(node, 'alt') && this.isRuleEnabled('imgAlt')) {
+      issues.push(this.createIssue(file, node, 'imgAlt', '<img> sem o atributo alt.'));
+    }
+  }
+
+  private checkAnchor(file: ParsedFile, node: any, issues: Issue[]): void {
+    if (!this.isRuleEnabled('anchorHref')) return;
+
+    const href = this.getAttribute(node, 'href');
+    if (!href) {
+      issues.push(this.createIssue(file, node, 'anchorHref', '<a> sem o atributo href.'));
+      return;
+    }
+
+    const value = this.getStaticValue(href);
+    if (typeof value === 'string' && (value.trim() === '' || INVALID_HREF.test(value.trim()))) {
+      issues.push(this.createIssue(file, node, 'anchorHref', `<a> com href="${value}", que não leva a lugar nenhum.`));
+    }
+  }
+
+  private checkClick(file: ParsedFile, node: any, tag: string, issues: Issue[]): void {
+    if (!this.getAttribute(node, 'onClick') || !this.isRuleEnabled('clickWithoutKeyboard')) return;
+
+    const missing = [
+      this.getAttribute(node, 'role') ? null : 'role',
+      KEYBOARD_HANDLERS.some(handler => this.getAttribute(node, handler)) ? null : 'tratamento de teclado'
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      issues.push(this.createIssue(file, node, 'clickWithoutKeyboard', `<${tag}> com onClick sem ${missing.join(' e sem ')}.`));
+    }
+  }
+
+  private checkTabIndex(file: ParsedFile, node: any, issues: Issue[]): void {
+    const tabIndex = this.getAttribute(node, 'tabIndex');
+    const raw = tabIndex ? this.getStaticValue(tabIndex) : undefined;
+    const value = typeof raw === 'number' || typeof raw === 'string' ? Number(raw) : NaN;
+
+    if (value > 0 && this.isRuleEnabled('positiveTabIndex')) {
+      issues.push(this.createIssue(file, node, 'positiveTabIndex', `tabIndex ${value} em <${this.getElementName(node.name)}>.`));
+    }
+  }
+
+  private needsLabel(node: any, tag: string): boolean {
+    if (LABEL_ATTRIBUTES.some(name => this.getAttribute(node, name))) return false;
+    if (tag !== 'input') return true;
+
+    const type = this.getAttribute(node, 'type');
+    const value = type ? this.getStaticValue(type) : 'text';
+    return typeof value !== 'string' || !UNLABELED_INPUT_TYPES.has(value.toLowerCase());
+  }
+
+  private isInsideLabel(path: NodePath): boolean {
+    return Boolean(path.parentPath?.findParent(parent => {
+      const name = parent.isJSXElement() ? (parent.node.openingElement.name as any) : null;
+      return name?.type === 'JSXIdentifier' && name.name === 'label';
+    }));
+  }
+
+  private getAttribute(node: any, name: string): any {
+    return node.attributes.find((attribute: any) =>
+      attribute.type === 'JSXAttribute' && attribute.name.type === 'JSXIdentifier' && attribute.name.name === name);
+  }
+
+  /**
+   * Valor de um atributo escrito como literal (`id="x"`, `tabIndex={2}`,
+   * `` href={`#`} ``). Expressões retornam undefined e atributos sem valor, true.
+   */
+  private getStaticValue(attribute: any): string | number | boolean | undefined {
+    const value = attribute.value;
+    if (!value) return true;
+    if (value.type === 'StringLiteral') return value.value;
+    if (value.type !== 'JSXExpressionContainer') return undefined;
+
+    const expression = value.expression;
+    if (expression.type === 'StringLiteral' || expression.type === 'NumericLiteral') return expression.value;
+    if (expression.type === 'TemplateLiteral' && expression.expressions.length === 0) return expression.quasis[0].value.cooked;
+    return undefined;
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: AccessibilityRule, description: string): Issue {
+    const definition = AccessibilityDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.ACCESSIBILITY)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: location.line }))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
@@ -0,0 +1,358 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface AsyncConfig {
+  enabled: boolean;
+  rules: {
+    asyncWithoutAwait: boolean;
+    floatingPromise: boolean;
+    awaitInLoop: boolean;
+    promiseConstructor: boolean;
+    mixedThenAwait: boolean;
+  };
+}
+
+type AsyncRule = keyof AsyncConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+/** Como se sabe que uma chamada devolve uma promise. */
+type PromiseEvidence = 'declaracao' | 'sintaxe';
+
+interface FunctionFrame {
+  node: any;
+  awaitCount: number;
+  firstThen: any;
+  /** new Promise cujo executor é esta função. */
+  executorOf: any;
+  executorReported: boolean;
+}
+
+const LOOP_TYPES = new Set(['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement']);
+
+const PROMISE_STATICS = new Set(['all', 'allSettled', 'any', 'race', 'resolve', 'reject']);
+
+const HEURISTIC_NOTE = 'Achado heurístico: baseado só na sintaxe, sem informação de tipos.';
+
+export class AsyncDetector extends VisitorDetector {
+  protected readonly analysisName = 'async';
+
+  private defaultConfig: AsyncConfig = {
+    enabled: true,
+    rules: {
+      asyncWithoutAwait: true,
+      floatingPromise: true,
+      awaitInLoop: true,
+      promiseConstructor: true,
+      mixedThenAwait: true
+    }
+  };
+
+  static readonly RULES: Record<AsyncRule, RuleDefinition> = {
+    asyncWithoutAwait: {
+      id: 'async-sem-await',
+      severity: IssueSeverity.LOW,
+      title: 'Função async sem await',
+      suggestion: 'Remova o async se a função não precisa esperar nada, ou adicione o await que ficou faltando. Uma função async sem await só embrulha o retorno em uma promise.'
+    },
+    floatingPromise: {
+      id: 'promise-solta',
+      severity: IssueSeverity.HIGH,
+      title: 'Promise não tratada',
+      suggestion: 'Use await, retorne a promise ou encadeie um .catch(). Se for mesmo para rodar em segundo plano, deixe isso explícito com void e trate o erro dentro da função.'
+    },
+    awaitInLoop: {
+      id: 'await-em-laco',
+      severity: IssueSeverity.MEDIUM,
+      title: 'await dentro de laço',
+      suggestion: 'Se as iterações não dependem umas das outras, crie as promises no laço e espere todas juntas com await Promise.all(...).'
+    },
+    promiseConstructor: {
+      id: 'new-promise-desnecessario',
+      severity: IssueSeverity.MEDIUM,
+      title: 'new Promise em volta de código assíncrono',
+      suggestion: 'Retorne a promise que já existe (ou use uma função async) em vez de criar outra com new Promise. Erros lançados dentro de um executor async não rejeitam a promise externa.'
+    },
+    mixedThenAwait: {
+      id: 'then-com-await',
+      severity: IssueSeverity.LOW,
+      title: '.then misturado com await',
+      suggestion: 'Escolha um estilo por função. Em funções async, troque os .then por await para manter o fluxo e o tratamento de erros lineares.'
+    }
+  };
+
+  constructor(config?: Partial<AsyncConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    // O módulo funciona como uma função para o await de nível superior
+    const stack: FunctionFrame[] = [this.createFrame(null, null)];
+    const asyncMethods: Array<Set<string>> = [];
+    const reportedLoops = new Set<any>();
+
+    const current = () => stack[stack.length - 1];
+
+    return {
+      visitor: {
+        Function: {
+          enter: (path: NodePath) => {
+            const parent: any = path.parent;
+            const isExecutor = parent.type === 'NewExpression' &&
+                               parent.arguments[0] === path.node &&
+                               this.isGlobalReference(path, parent.callee, 'Promise');
+
+            const frame = this.createFrame(path.node, isExecutor ? parent : null);
+            // O executor async já é apontado em NewExpression; as chamadas dentro dele não repetem o achado
+            frame.executorReported = Boolean((path.node as any).async);
+            stack.push(frame);
+          },
+          exit: path => {
+            const frame = stack.pop()!;
+            this.checkFunction(file, frame, path.parent, issues);
+          }
+        },
+        ClassBody: {
+          enter: path => {
+            asyncMethods.push(new Set(
+              path.node.body
+                .filter((member: any) => member.async && member.key?.type === 'Identifier')
+                .map((member: any) => member.key.name)
+            ));
+          },
+          exit: () => {
+            asyncMethods.pop();
+          }
+        },
+        AwaitExpression: path => {
+          current().awaitCount++;
+
+          if (this.isRuleEnabled('awaitInLoop')) {
+            const loop = this.findEnclosingLoop(path);
+            if (loop && !reportedLoops.has(loop) && !this.feedsOuterAssignment(path) && !this.isBatch(path)) {
+              reportedLoops.add(loop);
+              issues.push(this.createIssue(file, path.node, 'awaitInLoop',
+                `O laço espera cada iteração terminar antes de começar a próxima. ${HEURISTIC_NOTE}`));
+            }
+          }
+        },
+        ForOfStatement: path => {
+          if (path.node.await) current().awaitCount++;
+        },
+        'CallExpression|OptionalCallExpression': path => {
+          const node: any = path.node;
+          const frame = current();
+
+          if (this.getCalleeProperty(node) === 'then' && !frame.firstThen) {
+            frame.firstThen = node;
+          }
+
+          if (frame.executorOf && !frame.executorReported && this.isRuleEnabled('promiseConstructor')) {
+            const evidence = this.getPromiseEvidence(path, node, asyncMethods);
+            if (evidence) {
+              frame.executorReported = true;
+              issues.push(this.createIssue(file, frame.executorOf, 'promiseConstructor',
+                `O executor do new Promise chama código que já devolve uma promise.${evidence === 'sintaxe' ? ` ${HEURISTIC_NOTE}` : ''}`));
+            }
+          }
+        },
+        NewExpression: path => {
+          const executor: any = path.node.arguments[0];
+          if (executor?.async && this.isGlobalReference(path, path.node.callee, 'Promise') && this.isRuleEnabled('promiseConstructor')) {
+            issues.push(this.createIssue(file, path.node, 'promiseConstructor',
+              'O executor do new Promise é uma função async; erros lançados nele não rejeitam a promise.'));
+          }
+        },
+        ExpressionStatement: path => {
+          if (!this.isRuleEnabled('floatingPromise')) return;
+
+          const expression: any = path.node.expression;
+          const evidence = this.getPromiseEvidence(path, expression, asyncMethods);
+          if (!evidence) return;
+
+          issues.push(this.createIssue(file, expression, 'floatingPromise',
+            `O resultado de ${this.describeCall(file, expression)} não é esperado, retornado nem tratado com .catch(); uma rejeição aqui vira unhandledRejection.${evidence === 'sintaxe' ? ` ${HEURISTIC_NOTE}` : ''}`));
+        }
+      },
+      finish: () => {
+        issues.sort((a, b) => a.location.line - b.location.line || a.location.column - b.location.column);
+      }
+    };
+  }
+
+  private createFrame(node: any, executorOf: any): FunctionFrame {
+    return { node, awaitCount: 0, firstThen: null, executorOf, executorReported: false };
+  }
+
+  private checkFunction(file: ParsedFile, frame: FunctionFrame, parent: any, issues: Issue[]): void {
+    const node = frame.node;
+
+    if (node.async && !node.generator && frame.awaitCount === 0 && this.isRuleEnabled('asyncWithoutAwait') && !this.hasEmptyBody(node)) {
+      // O executor async de new Promise já é apontado pela regra própria
+      if (!frame.executorOf) {
+        issues.push(this.createIssue(file, node, 'asyncWithoutAwait',
+          `${this.describeFunction(node, parent)} é async mas não usa await.`, true));
+      }
+    }
+
+    if (node.async && frame.awaitCount > 0 && frame.firstThen && this.isRuleEnabled('mixedThenAwait')) {
+      issues.push(this.createIssue(file, frame.firstThen, 'mixedThenAwait',
+        `${this.describeFunction(node, parent)} usa await e também encadeia .then(). ${HEURISTIC_NOTE}`));
+    }
+  }
+
+  /**
+   * Se a expressão devolve uma promise que ninguém trata. "declaracao" quando
+   * dá para ver a promise no próprio arquivo (função async declarada aqui,
+   * .then, Promise.*, new Promise); "sintaxe" quando a suspeita vem só do
+   * nome chamado (fetch, fs.promises, sufixo Async).
+   */
+  private getPromiseEvidence(path: NodePath, node: any, asyncMethods: Array<Set<string>>): PromiseEvidence | null {
+    if (node?.type === 'NewExpression') {
+      return this.isGlobalReference(path, node.callee, 'Promise') ? 'declaracao' : null;
+    }
+    if (node?.type !== 'CallExpression' && node?.type !== 'OptionalCallExpression') return null;
+
+    const callee = node.callee;
+    const property = this.getCalleeProperty(node);
+
+    // Encadeamentos: .catch trata; .then(ok, erro) também
+    if (property === 'catch') return null;
+    if (property === 'then') return node.arguments.length >= 2 ? null : 'declaracao';
+    if (property === 'finally') return 'declaracao';
+
+    if (this.isMember(callee) && this.isGlobalReference(path, callee.object, 'Promise') && PROMISE_STATICS.has(property ?? '')) {
+      return 'declaracao';
+    }
+
+    if (callee.type === 'Identifier' && this.isLocalAsyncFunction(path, callee.name)) return 'declaracao';
+
+    if (this.isMember(callee) && callee.object.type === 'ThisExpression' && property &&
+        asyncMethods.length > 0 && asyncMethods[asyncMethods.length - 1].has(property)) {
+      return 'declaracao';
+    }
+
+    return this.looksLikePromiseApi(path, callee) ? 'sintaxe' : null;
+  }
+
+  private isLocalAsyncFunction(path: NodePath, name: string): boolean {
+    const binding = path.scope?.getBinding(name);
+    if (!binding) return false;
+
+    const node: any = binding.path.node;
+    if (binding.path.isFunctionDeclaration()) return Boolean(node.async);
+    if (binding.path.isVariableDeclarator() && binding.constantViolations.length === 0) {
+      return Boolean(node.init?.async);
+    }
+    return false;
+  }
+
+  private looksLikePromiseApi(path: NodePath, callee: any): boolean {
+    if (this.isGlobalReference(path, callee, 'fetch')) return true;
+
+    const name = callee.type === 'Identifier' ? callee.name : this.isMember(callee) && !callee.computed ? callee.property.name : null;
+    if (name && /.Async$/.test(name)) return true;
+
+    // fs.promises.readFile(...), fsPromises.readFile(...)
+    if (!this.isMember(callee)) return false;
+    const object = callee.object;
+    if (object.type === 'Identifier') return object.name === 'fsPromises';
+    return this.isMember(object) && !object.computed && object.property.name === 'promises';
+  }
+
+  /**
+   * Laço mais próximo, na mesma função, cujo corpo contém o await. Um await
+   * no teste de um if decide o fluxo (busca sequencial que para no primeiro
+   * acerto), então não conta.
+   */
+  private findEnclosingLoop(path: NodePath): any {
+    let child: NodePath = path;
+    let parent = path.parentPath;
+
+    while (parent && !parent.isFunction()) {
+      const node: any = parent.node;
+      if (parent.isIfStatement() && child.parentKey === 'test') return null;
+      if (LOOP_TYPES.has(node.type) && child.parentKey === 'body' && !node.await) return node;
+      child = parent;
+      parent = parent.parentPath;
+    }
+
+    return null;
+  }
+
+  /** cursor = await proxima(cursor): cada volta depende da anterior. */
+  private feedsOuterAssignment(path: NodePath): boolean {
+    const parent: any = path.parent;
+    return parent.type === 'AssignmentExpression' && parent.right === path.node;
+  }
+
+  /** await Promise.all(lote) dentro do laço já é processamento em lotes. */
+  private isBatch(path: NodePath): boolean {
+    const argument: any = (path.node as any).argument;
+    return argument?.type === 'CallExpression' &&
+           this.isMember(argument.callee) &&
+           this.isGlobalReference(path, argument.callee.object, 'Promise') &&
+           PROMISE_STATICS.has(this.getCalleeProperty(argument) ?? '');
+  }
+
+  private getCalleeProperty(node: any): string | null {
+    const callee = node.callee;
+    if (!this.isMember(callee) || callee.computed || callee.property.type !== 'Identifier') return null;
+    return callee.property.name;
+  }
+
+  private isMember(node: any): boolean {
+    return node?.type === 'MemberExpression' || node?.type === 'OptionalMemberExpression';
+  }
+
+  private hasEmptyBody(node: any): boolean {
+    return node.body?.type === 'BlockStatement' && node.body.body.length === 0;
+  }
+
+  private describeFunction(node: any, parent: any): string {
+    if (node.id?.name) return `A função "${node.id.name}"`;
+    if (node.key?.name) return `O método "${node.key.name}"`;
+    if (node.key?.type === 'PrivateName') return `O método "#${node.key.id.name}"`;
+    if (parent?.type === 'VariableDeclarator' && parent.id?.name) return `A função "${parent.id.name}"`;
+    return node.type === 'ArrowFunctionExpression' ? 'A função arrow' : 'A função anônima';
+  }
+
+  private describeCall(file: ParsedFile, node: any): string {
+    const property = node.type === 'NewExpression' ? null : this.getCalleeProperty(node);
+    if (property === 'then' || property === 'finally') return `um encadeamento terminado em .${property}()`;
+
+    const callee = node.callee;
+    const source = typeof callee.start === 'number' ? file.content.slice(callee.start, callee.end) : 'chamada';
+    const short = source.length > 40 ? `${source.slice(0, 37)}...` : source;
+    return node.type === 'NewExpression' ? `new ${short}()` : `${short}()`;
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: AsyncRule, description: string, headerOnly: boolean = false): Issue {
+    const definition = AsyncDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.BEST_PRACTICES)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, headerOnly ? { ...location, endLine: location.line } : location))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
@@ -0,0 +1,146 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface BestPracticesConfig {
+  enabled: boolean;
+  rules: {
+    debugger: boolean;
+    console: boolean;
+    looseEquality: boolean;
+    varDeclaration: boolean;
+    withStatement: boolean;
+  };
+}
+
+type BestPracticeRule = keyof BestPracticesConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+export class BestPracticesDetector extends VisitorDetector {
+  protected readonly analysisName = 'boas práticas';
+
+  private defaultConfig: BestPracticesConfig = {
+    enabled: true,
+    rules: {
+      debugger: true,
+      console: true,
+      looseEquality: true,
+      varDeclaration: true,
+      withStatement: true
+    }
+  };
+
+  static readonly RULES: Record<BestPracticeRule, RuleDefinition> = {
+    debugger: {
+      id: 'sem-debugger',
+      severity: IssueSeverity.HIGH,
+      title: 'Instrução debugger esquecida',
+      suggestion: 'Remova a instrução debugger antes de enviar o código. Use breakpoints do editor ou do navegador durante a depuração.'
+    },
+    console: {
+      id: 'sem-console',
+      severity: IssueSeverity.LOW,
+      title: 'Chamada de console esquecida',
+      suggestion: 'Remova logs de depuração ou substitua-os por um logger estruturado com níveis configuráveis.'
+    },
+    looseEquality: {
+      id: 'igualdade-estrita',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Comparação com igualdade frouxa',
+      suggestion: 'Use === e !== para evitar conversões implícitas de tipo que geram resultados inesperados.'
+    },
+    varDeclaration: {
+      id: 'sem-var',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Declaração com var',
+      suggestion: 'Use const para valores que não são reatribuídos e let para os demais. Ambos têm escopo de bloco e evitam problemas de hoisting.'
+    },
+    withStatement: {
+      id: 'sem-with',
+      severity: IssueSeverity.HIGH,
+      title: 'Uso da instrução with',
+      suggestion: 'Acesse as propriedades explicitamente ou use desestruturação. A instrução with torna o escopo ambíguo e é proibida em modo estrito.'
+    }
+  };
+
+  constructor(config?: Partial<BestPracticesConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    return {
+      visitor: {
+        DebuggerStatement: path => {
+          if (this.isRuleEnabled('debugger')) {
+            issues.push(this.createIssue(file, path.node, 'debugger', 'Instrução debugger encontrada no código.'));
+          }
+        },
+        CallExpression: path => {
+          const node: any = path.node;
+
+          if (this.isConsoleCall(path) && this.isRuleEnabled('console')) {
+            const method = node.callee.property?.name ?? 'log';
+            issues.push(this.createIssue(file, node, 'console', `Chamada console.${method}() encontrada no código.`));
+          }
+        },
+        BinaryExpression: path => {
+          const node = path.node;
+          if ((node.operator === '==' || node.operator === '!=') && this.isRuleEnabled('looseEquality')) {
+            const strict = node.operator === '==' ? '===' : '!==';
+            issues.push(this.createIssue(file, node, 'looseEquality', `Operador "${node.operator}" usado em vez de "${strict}".`));
+          }
+        },
+        VariableDeclaration: path => {
+          const node = path.node;
+          if (node.kind === 'var' && this.isRuleEnabled('varDeclaration')) {
+            const names = node.declarations
+              .map((declarator: any) => declarator.id?.name)
+              .filter(Boolean)
+              .join(', ');
+            issues.push(this.createIssue(file, node, 'varDeclaration', `Variável${names ? ` "${names}"` : ''} declarada com var.`));
+          }
+        },
+        WithStatement: path => {
+          if (this.isRuleEnabled('withStatement')) {
+            issues.push(this.createIssue(file, path.node, 'withStatement', 'Instrução with encontrada no código.'));
+          }
+        }
+      }
+    };
+  }
+
+  private isConsoleCall(path: NodePath): boolean {
+    const callee: any = (path.node as any).callee;
+    return (callee?.type === 'MemberExpression' || callee?.type === 'OptionalMemberExpression') &&
+           this.isGlobalReference(path, callee.object, 'console');
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: BestPracticeRule, description: string): Issue {
+    const definition = BestPracticesDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.BEST_PRACTICES)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
@@ -1,4 +1,8 @@
-import { BaseDetector, ParsedFile } from '../base/detector';
+import { NodePath } from '@babel/traverse';
+import { LogicalExpression } from '@babel/types';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { MetricsCollector } from '../base/metrics';
 import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
 
 interface ComplexityConfig {
@@ -6,15 +10,60 @@ interface ComplexityConfig {
   thresholds: {
     function: number;
     file: number;
+    cognitive: number;
+    nesting: number;
+    callbacks: number;
   };
 }
 
-export class ComplexityDetector extends BaseDetector {
+/** Maior aninhamento visto em uma função ou no escopo do módulo. */
+interface NestingTracker {
+  maxNesting: number;
+  deepestNesting: any;
+  maxCallbackDepth: number;
+  deepestCallback: any;
+}
+
+interface FunctionFrame extends NestingTracker {
+  node: any;
+  name: string;
+  /** Nome pelo qual a função chama a si mesma, quando há um. */
+  recursionName: string | null;
+  complexity: number;
+  cognitiveComplexity: number;
+  /** Quantos callbacks aninhados chegam até esta função (0 se ela não é um callback). */
+  callbackDepth: number;
+  /** Função que não é callback (ou o módulo) onde começa a pirâmide de callbacks. */
+  callbackRoot: NestingTracker;
+  issueIndex: number;
+}
+
+const LOOP_TYPES = ['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement'];
+
+const DECISION_TYPES = new Set(['IfStatement', 'ConditionalExpression', 'CatchClause', 'SwitchCase', ...LOOP_TYPES]);
+
+/**
+ * Quanto um nó soma à complexidade ciclomática da função que o contém: 1 por
+ * ponto de decisão, 2 para && e || e 0 para os demais nós.
+ */
+export function getCyclomaticIncrement(node: any): number {
+  if (node.type === 'LogicalExpression') {
+    return node.operator === '&&' || node.operator === '||' ? 2 : 1;
+  }
+  return DECISION_TYPES.has(node.type) ? 1 : 0;
+}
+
+export class ComplexityDetector extends VisitorDetector {
+  protected readonly analysisName = 'complexidade';
+
   private defaultConfig: ComplexityConfig = {
     enabled: true,
     thresholds: {
       function: 10,
-      file: 20
+      file: 20,
+      cognitive: 15,
+      nesting: 4,
+      callbacks: 3
     }
   };
 
@@ -23,162 +72,385 @@ export class ComplexityDetector extends BaseDetector {
     this.config.thresholds = { ...this.defaultConfig.thresholds, ...config?.thresholds };
   }
 
-  detect(file: ParsedFile): Issue[] {
-    if (!this.isEnabled()) return [];
+  /**
+   * Calcula a complexidade de todas as funções na mesma travessia. Cada ponto
+   * de decisão conta para todas as funções abertas, já que a complexidade de
+   * uma função inclui as funções aninhadas nela.
+   */
+  createPass(file: ParsedFile, issues: Issue[], metrics: MetricsCollector): DetectorPass | null {
+    if (!this.isEnabled()) return null;
 
-    const issues: Issue[] = [];
-    
-    try {
-      this.traverseAST(file.ast, file, issues);
-      
-      // Verificar complexidade a nível de arquivo
-      const fileComplexity = this.calculateFileComplexity(file.ast);
-      if (fileComplexity > this.getThreshold('file', this.defaultConfig.thresholds.file)) {
-        issues.push(this.createFileComplexityIssue(file, fileComplexity));
+    const stack: FunctionFrame[] = [];
+    const moduleScope: NestingTracker = { maxNesting: 0, deepestNesting: null, maxCallbackDepth: 0, deepestCallback: null };
+    let totalComplexity = 0;
+    let functionCount = 0;
+
+    const addComplexity = (amount: number) => {
+      stack.forEach(frame => {
+        frame.complexity += amount;
+      });
+    };
+
+    const addCognitive = (path: NodePath, nested: boolean) => {
+      if (nested) {
+        this.addNestedCognitiveIncrement(path, stack);
+      } else {
+        stack.forEach(frame => {
+          frame.cognitiveComplexity++;
+        });
       }
-      
-    } catch (error) {
-      console.warn(`Análise de complexidade falhou para ${file.path}:`, error);
-    }
+    };
 
-    return issues;
-  }
+    // Cada tipo de nó deve aparecer em uma só chave do visitante: o Babel
+    // sobrescreve, em vez de juntar, tipos repetidos entre chaves com "|"
+    const trackNesting = (path: NodePath) => {
+      const tracker = stack[stack.length - 1] ?? moduleScope;
+      const level = this.getBlockNestingLevel(path, stack[stack.length - 1]?.node);
+
+      if (level > tracker.maxNesting) {
+        tracker.maxNesting = level;
+        tracker.deepestNesting = path.node;
+      }
+    };
+
+    return {
+      visitor: {
+        enter: path => {
+          const increment = getCyclomaticIncrement(path.node);
+          if (increment > 0) addComplexity(increment);
+        },
+        // Alias do Babel: funções, arrow functions e métodos de classe e de objeto
+        Function: {
+          enter: (path: NodePath) => {
+            const parentFrame = stack[stack.length - 1];
+            const isCallback = this.isCallback(path);
 
-  private traverseAST(node: any, file: ParsedFile, issues: Issue[]): void {
-    if (!node || typeof node !== 'object') return;
+            const frame: FunctionFrame = {
+              node: path.node,
+              name: this.extractFunctionName(path.node, path.parent),
+              recursionName: this.getRecursionName(path),
+              complexity: 1, // Complexidade base
+              cognitiveComplexity: 0,
+              maxNesting: 0,
+              deepestNesting: null,
+              maxCallbackDepth: 0,
+              deepestCallback: null,
+              callbackDepth: isCallback ? (parentFrame?.callbackDepth ?? 0) + 1 : 0,
+              callbackRoot: moduleScope,
+              issueIndex: issues.length
+            };
 
-    // Verificar complexidade de função
-    if (this.isFunctionNode(node)) {
-      const complexity = this.calculateCyclomaticComplexity(node);
-      const threshold = this.getThreshold('function', this.defaultConfig.thresholds.function);
-      
-      if (complexity > threshold) {
-        issues.push(this.createFunctionComplexityIssue(file, node, complexity));
+            frame.callbackRoot = isCallback ? (parentFrame?.callbackRoot ?? moduleScope) : frame;
+
+            if (frame.callbackDepth > frame.callbackRoot.maxCallbackDepth) {
+              frame.callbackRoot.maxCallbackDepth = frame.callbackDepth;
+              frame.callbackRoot.deepestCallback = path.node;
+            }
+
+            stack.push(frame);
+          },
+          exit: () => {
+            const frame = stack.pop()!;
+            totalComplexity += frame.complexity;
+            functionCount++;
+
+            metrics.recordFunction(frame.node, frame.name, {
+              cyclomaticComplexity: frame.complexity,
+              cognitiveComplexity: frame.cognitiveComplexity,
+              maxNestingDepth: frame.maxNesting,
+              maxCallbackDepth: frame.maxCallbackDepth
+            });
+
+            const frameIssues: Issue[] = this.createNestingIssues(file, `"${frame.name}"`, frame);
+
+            if (frame.complexity > this.getThreshold('function', this.defaultConfig.thresholds.function)) {
+              frameIssues.push(this.createFunctionComplexityIssue(file, frame));
+            }
+
+            if (frame.cognitiveComplexity > this.getThreshold('cognitive', this.defaultConfig.thresholds.cognitive)) {
+              frameIssues.push(this.createCognitiveComplexityIssue(file, frame));
+            }
+
+            // Mantém a ordem do código: a função externa antes das aninhadas
+            issues.splice(frame.issueIndex, 0, ...frameIssues);
+          }
+        },
+        IfStatement: path => {
+          trackNesting(path);
+
+          // "else if" continua a cadeia: soma 1, mas sem o aninhamento
+          const isElseIf = path.parentPath.isIfStatement() && path.parentKey === 'alternate';
+          addCognitive(path, !isElseIf);
+
+          if (path.node.alternate && path.node.alternate.type !== 'IfStatement') {
+            addCognitive(path, false);
+          }
+        },
+        SwitchStatement: path => {
+          trackNesting(path);
+          addCognitive(path, true);
+        },
+        TryStatement: path => {
+          trackNesting(path);
+        },
+        'ForStatement|ForInStatement|ForOfStatement|WhileStatement|DoWhileStatement': path => {
+          trackNesting(path);
+          addCognitive(path, true);
+        },
+        'ConditionalExpression|CatchClause': path => {
+          addCognitive(path, true);
+        },
+        'BreakStatement|ContinueStatement': path => {
+          // Desvios para rótulos quebram o fluxo linear
+          if ((path.node as any).label) addCognitive(path, false);
+        },
+        LogicalExpression: (path: NodePath<LogicalExpression>) => {
+          const operator = path.node.operator;
+
+          // Cada sequência de operadores iguais soma 1: a && b && c || d soma 2
+          const parent: any = path.parent;
+          if (parent.type !== 'LogicalExpression' || parent.operator !== operator) {
+            addCognitive(path, false);
+          }
+        },
+        CallExpression: path => {
+          if (this.isRecursiveCall(path.node, stack)) {
+            addCognitive(path, false);
+          }
+        }
+      },
+      finish: () => {
+        issues.push(...this.createNestingIssues(file, 'o escopo do módulo', moduleScope));
+
+        const fileComplexity = functionCount > 0 ? Math.round(totalComplexity / functionCount) : 0;
+        if (fileComplexity > this.getThreshold('file', this.defaultConfig.thresholds.file)) {
+          issues.push(this.createFileComplexityIssue(file, fileComplexity));
+        }
       }
-    }
+    };
+  }
+
+  /**
+   * Soma 1 mais o nível de aninhamento a cada função aberta. O nível é
+   * contado subindo pelos ancestrais até a função; cada função aninhada no
+   * caminho também conta como um nível para as funções mais externas.
+   */
+  private addNestedCognitiveIncrement(path: NodePath, stack: FunctionFrame[]): void {
+    let nesting = 0;
+    let frameIndex = stack.length - 1;
+    let child = path;
+    let current = path.parentPath;
 
-    // Percorrer recursivamente nós filhos
-    for (const key in node) {
-      if (key === 'parent' || key === 'leadingComments' || key === 'trailingComments') continue;
-      
-      const child = node[key];
-      if (Array.isArray(child)) {
-        child.forEach(item => this.traverseAST(item, file, issues));
-      } else if (child && typeof child === 'object') {
-        this.traverseAST(child, file, issues);
+    while (current && frameIndex >= 0) {
+      if (current.node === stack[frameIndex].node) {
+        stack[frameIndex].cognitiveComplexity += 1 + nesting;
+        frameIndex--;
+        nesting++;
+      } else if (this.increasesNesting(current, child)) {
+        nesting++;
       }
+
+      child = current;
+      current = current.parentPath;
     }
   }
 
-  private isFunctionNode(node: any): boolean {
-    return node.type === 'FunctionDeclaration' ||
-           node.type === 'FunctionExpression' ||
-           node.type === 'ArrowFunctionExpression' ||
-           node.type === 'MethodDefinition';
-  }
-
-  private calculateCyclomaticComplexity(functionNode: any): number {
-    let complexity = 1; // Complexidade base
-
-    const complexityNodes = [
-      'IfStatement',
-      'ConditionalExpression',
-      'SwitchCase',
-      'ForStatement',
-      'ForInStatement',
-      'ForOfStatement',
-      'WhileStatement',
-      'DoWhileStatement',
-      'CatchClause',
-      'LogicalExpression'
-    ];
-
-    this.traverseForComplexity(functionNode, (node) => {
-      if (complexityNodes.includes(node.type)) {
-        complexity++;
-        
-        // Expressões lógicas (&&, ||) adicionam complexidade
-        if (node.type === 'LogicalExpression' && 
-           (node.operator === '&&' || node.operator === '||')) {
-          complexity++;
-        }
-      }
-    });
+  /**
+   * Nível de aninhamento de blocos de uma estrutura dentro da função (ou do
+   * módulo, sem função): 1 no corpo da função, mais 1 para cada if, laço,
+   * switch ou try que a envolve.
+   */
+  private getBlockNestingLevel(path: NodePath, boundary: any): number {
+    let level = 1;
+    let child = path;
+    let current = path.parentPath;
 
-    return complexity;
+    while (current && current.node !== boundary) {
+      if (this.increasesNesting(current, child, true)) level++;
+      child = current;
+      current = current.parentPath;
+    }
+
+    return level;
   }
 
-  private calculateFileComplexity(ast: any): number {
-    let totalComplexity = 0;
-    let functionCount = 0;
+  /**
+   * Se `child` está no corpo de uma estrutura que aumenta o aninhamento. O
+   * bloco de try só conta para a profundidade de blocos; na complexidade
+   * cognitiva apenas o catch aninha.
+   */
+  private increasesNesting(parent: NodePath, child: NodePath, countTry: boolean = false): boolean {
+    const key = child.parentKey;
+    const type = parent.node.type;
 
-    this.traverseAST(ast, null as any, []);
-    
-    this.traverseForComplexity(ast, (node) => {
-      if (this.isFunctionNode(node)) {
-        totalComplexity += this.calculateCyclomaticComplexity(node);
-        functionCount++;
-      }
-    });
+    if (type === 'TryStatement') {
+      return countTry && (key === 'block' || key === 'finalizer');
+    }
+
+    if (type === 'IfStatement') {
+      return key === 'consequent' || (key === 'alternate' && !child.isIfStatement());
+    }
+
+    if (type === 'ConditionalExpression') {
+      return key === 'consequent' || key === 'alternate';
+    }
+
+    if (type === 'SwitchStatement') return key === 'cases';
+    if (type === 'CatchClause') return key === 'body';
+
+    return LOOP_TYPES.includes(type) && key === 'body';
+  }
 
-    return functionCount > 0 ? Math.round(totalComplexity / functionCount) : 0;
+  /** Função anônima passada como argumento, como em `lista.map(item => ...)`. */
+  private isCallback(path: NodePath): boolean {
+    return (path.isFunctionExpression() || path.isArrowFunctionExpression()) &&
+           path.parentKey === 'arguments' &&
+           (path.parentPath!.isCallExpression() || path.parentPath!.isNewExpression() || path.parentPath!.isOptionalCallExpression());
   }
 
-  private traverseForComplexity(node: any, callback: (node: any) => void): void {
-    if (!node || typeof node !== 'object') return;
+  private getRecursionName(path: NodePath): string | null {
+    const node: any = path.node;
+    if (node.id?.name) return node.id.name;
+    if (node.key?.type === 'Identifier' && !node.computed) return `this.${node.key.name}`;
 
-    callback(node);
+    const parent: any = path.parent;
+    if (parent.type === 'VariableDeclarator' && parent.id?.type === 'Identifier') return parent.id.name;
 
-    for (const key in node) {
-      if (key === 'parent' || key === 'leadingComments' || key === 'trailingComments') continue;
-      
-      const child = node[key];
-      if (Array.isArray(child)) {
-        child.forEach(item => this.traverseForComplexity(item, callback));
-      } else if (child && typeof child === 'object') {
-        this.traverseForComplexity(child, callback);
-      }
+    return null;
+  }
+
+  private isRecursiveCall(node: any, stack: FunctionFrame[]): boolean {
+    const callee = node.callee;
+    let calledName: string | null = null;
+
+    if (callee?.type === 'Identifier') {
+      calledName = callee.name;
+    } else if (callee?.type === 'MemberExpression' && callee.object?.type === 'ThisExpression' &&
+               callee.property?.type === 'Identifier' && !callee.computed) {
+      calledName = `this.${callee.property.name}`;
     }
+
+    return calledName !== null && stack.some(frame => frame.recursionName === calledName);
   }
 
-  private createFunctionComplexityIssue(file: ParsedFile, node: any, complexity: number): Issue {
-    const functionName = this.extractFunctionName(node);
+  private createFunctionComplexityIssue(file: ParsedFile, frame: FunctionFrame): Issue {
+    const { node, name: functionName, complexity } = frame;
     const severity = this.getSeverityByComplexity(complexity);
     
     // Garantir que o nó tem informação de localização
     if (!node.loc) {
       node.loc = { start: { line: 1, column: 0 }, end: { line: 1, column: 0 } };
     }
+
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, 'complexidade-ciclomatica', location);
     
     return IssueBuilder.create()
-      .withId(this.generateIssueId())
+      .withId(this.generateIssueId(fingerprint, location))
       .withCategory(IssueCategory.COMPLEXITY)
       .withSeverity(severity)
       .withTitle(`Alta complexidade ciclomática: ${complexity}`)
       .withDescription(`A função "${functionName}" tem complexidade ciclomática de ${complexity}, que excede o limite de ${this.getThreshold('function', this.defaultConfig.thresholds.function)}.`)
       .withSuggestion(`Considere dividir esta função em funções menores e mais focadas. Extraia blocos lógicos em funções separadas para melhorar a legibilidade e manutenibilidade.`)
-      .withLocation(this.createLocation(file, node))
-      .withCodeSnippet(this.extractCodeSnippet(file, this.createLocation(file, node)))
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
       .withRule('complexidade-ciclomatica')
+      .withFingerprint(fingerprint)
+      .build();
+  }
+
+  private createCognitiveComplexityIssue(file: ParsedFile, frame: FunctionFrame): Issue {
+    const threshold = this.getThreshold('cognitive', this.defaultConfig.thresholds.cognitive);
+    const location = this.createLocation(file, frame.node);
+    const fingerprint = this.generateFingerprint(file, 'complexidade-cognitiva', location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.COMPLEXITY)
+      .withSeverity(this.getSeverityByRatio(frame.cognitiveComplexity, threshold))
+      .withTitle(`Alta complexidade cognitiva: ${frame.cognitiveComplexity}`)
+      .withDescription(`A função "${frame.name}" tem complexidade cognitiva de ${frame.cognitiveComplexity}, que excede o limite de ${threshold}. Desvios aninhados, quebras de fluxo, recursão e sequências mistas de operadores lógicos tornam o código difícil de acompanhar.`)
+      .withSuggestion(`Reduza o aninhamento com retornos antecipados (guard clauses), extraia condições compostas em funções com nomes descritivos e mova blocos internos de laços e condicionais para funções próprias.`)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
+      .withRule('complexidade-cognitiva')
+      .withFingerprint(fingerprint)
+      .build();
+  }
+
+  /** `ownerName` já vem pronto para a frase: o nome da função entre aspas ou "o escopo do módulo". */
+  private createNestingIssues(file: ParsedFile, ownerName: string, tracker: NestingTracker): Issue[] {
+    const issues: Issue[] = [];
+
+    const nestingThreshold = this.getThreshold('nesting', this.defaultConfig.thresholds.nesting);
+    if (tracker.maxNesting > nestingThreshold) {
+      issues.push(this.createNestingIssue(file, 'profundidade-aninhamento', tracker.deepestNesting, tracker.maxNesting, nestingThreshold,
+        `Aninhamento profundo: ${tracker.maxNesting} níveis`,
+        `O trecho mais profundo em ${ownerName} está em ${tracker.maxNesting} níveis de blocos aninhados (if, laços, switch, try), acima do limite de ${nestingThreshold}.`,
+        `Use retornos antecipados (guard clauses) para eliminar níveis, inverta condições e extraia o corpo de laços e condicionais internos para funções com nomes descritivos.`));
+    }
+
+    const callbackThreshold = this.getThreshold('callbacks', this.defaultConfig.thresholds.callbacks);
+    if (tracker.maxCallbackDepth > callbackThreshold) {
+      issues.push(this.createNestingIssue(file, 'aninhamento-callbacks', tracker.deepestCallback, tracker.maxCallbackDepth, callbackThreshold,
+        `Pirâmide de callbacks: ${tracker.maxCallbackDepth} níveis`,
+        `Há ${tracker.maxCallbackDepth} callbacks aninhados em ${ownerName} (funções passadas como argumento dentro de outros callbacks), acima do limite de ${callbackThreshold}.`,
+        `Achate a pirâmide com async/await ou encadeamento de Promises, ou dê nome aos callbacks internos e declare-os fora da chamada.`));
+    }
+
+    return issues;
+  }
+
+  private createNestingIssue(
+    file: ParsedFile,
+    rule: string,
+    node: any,
+    depth: number,
+    threshold: number,
+    title: string,
+    description: string,
+    suggestion: string
+  ): Issue {
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, rule, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.COMPLEXITY)
+      .withSeverity(this.getSeverityByRatio(depth, threshold))
+      .withTitle(title)
+      .withDescription(description)
+      .withSuggestion(suggestion)
+      .withLocation(location)
+      // Só a linha mais profunda e seu entorno, não o bloco inteiro
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: location.line }))
+      .withRule(rule)
+      .withFingerprint(fingerprint)
       .build();
   }
 
   private createFileComplexityIssue(file: ParsedFile, complexity: number): Issue {
+    const location = { file: file.path, line: 1, column: 0 };
+    const fingerprint = this.generateFingerprint(file, 'complexidade-arquivo', location);
+
     return IssueBuilder.create()
-      .withId(this.generateIssueId())
+      .withId(this.generateIssueId(fingerprint, location))
       .withCategory(IssueCategory.COMPLEXITY)
       .withSeverity(IssueSeverity.MEDIUM)
       .withTitle(`Alta complexidade do arquivo: ${complexity}`)
       .withDescription(`O arquivo tem uma complexidade ciclomática média de ${complexity}, que excede o limite de ${this.getThreshold('file', this.defaultConfig.thresholds.file)}.`)
       .withSuggestion(`Considere dividir este arquivo em múltiplos arquivos menores. Agrupe funções relacionadas e extraia-as em módulos separados.`)
-      .withLocation({ file: file.path, line: 1, column: 0 })
+      .withLocation(location)
       .withRule('complexidade-arquivo')
+      .withFingerprint(fingerprint)
       .build();
   }
 
-  private extractFunctionName(node: any): string {
+  private extractFunctionName(node: any, parent?: any): string {
     if (node.id?.name) return node.id.name;
     if (node.key?.name) return node.key.name;
+    if (node.key?.type === 'PrivateName') return `#${node.key.id.name}`;
+    if (parent?.type === 'VariableDeclarator' && parent.id?.name) return parent.id.name;
     if (node.type === 'ArrowFunctionExpression') return 'função arrow anônima';
     return 'função anônima';
   }
@@ -189,4 +461,13 @@ export class ComplexityDetector extends BaseDetector {
     if (complexity >= 10) return IssueSeverity.MEDIUM;
     return IssueSeverity.LOW;
   }
+
+  private getSeverityByRatio(actual: number, threshold: number): IssueSeverity {
+    const ratio = actual / threshold;
+
+    if (ratio >= 3) return IssueSeverity.CRITICAL;
+    if (ratio >= 2) return IssueSeverity.HIGH;
+    if (ratio >= 1.5) return IssueSeverity.MEDIUM;
+    return IssueSeverity.LOW;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,302 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface DeadCodeConfig {
+  enabled: boolean;
+  rules: {
+    unreachable: boolean;
+    constantCondition: boolean;
+    emptyBlock: boolean;
+    emptyFunction: boolean;
+    duplicateCondition: boolean;
+  };
+}
+
+type DeadCodeRule = keyof DeadCodeConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+const TERMINATORS = new Set(['ReturnStatement', 'ThrowStatement', 'BreakStatement', 'ContinueStatement']);
+
+/** Declarações que continuam valendo depois de um return: são içadas ou só existem em tipo. */
+const HOISTED_DECLARATIONS = new Set([
+  'FunctionDeclaration',
+  'EmptyStatement',
+  'TSInterfaceDeclaration',
+  'TSTypeAliasDeclaration',
+  'TSDeclareFunction'
+]);
+
+export class DeadCodeDetector extends VisitorDetector {
+  protected readonly analysisName = 'código morto';
+
+  private defaultConfig: DeadCodeConfig = {
+    enabled: true,
+    rules: {
+      unreachable: true,
+      constantCondition: true,
+      emptyBlock: true,
+      emptyFunction: true,
+      duplicateCondition: true
+    }
+  };
+
+  static readonly RULES: Record<DeadCodeRule, RuleDefinition> = {
+    unreachable: {
+      id: 'codigo-inalcancavel',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Código inalcançável',
+      suggestion: 'Remova as instruções que nunca executam ou mova-as para antes do desvio, se deveriam rodar.'
+    },
+    constantCondition: {
+      id: 'condicao-constante',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Condição constante',
+      suggestion: 'Remova o desvio e mantenha só o ramo que executa. Para desligar código temporariamente, use uma flag de configuração com nome.'
+    },
+    emptyBlock: {
+      id: 'bloco-vazio',
+      severity: IssueSeverity.LOW,
+      title: 'Bloco vazio',
+      suggestion: 'Remova o bloco ou escreva um comentário explicando por que não há nada a fazer nele.'
+    },
+    emptyFunction: {
+      id: 'funcao-vazia',
+      severity: IssueSeverity.LOW,
+      title: 'Função vazia',
+      suggestion: 'Se a função é um no-op intencional, deixe um comentário no corpo dizendo isso; se não, implemente-a ou remova-a.'
+    },
+    duplicateCondition: {
+      id: 'condicao-duplicada',
+      severity: IssueSeverity.HIGH,
+      title: 'Condição repetida em if/else if',
+      suggestion: 'O segundo ramo com a mesma condição nunca executa. Corrija a condição (provavelmente um erro de cópia) ou junte os ramos.'
+    }
+  };
+
+  constructor(config?: Partial<DeadCodeConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    return {
+      visitor: {
+        'BlockStatement|Program|SwitchCase|StaticBlock': path => {
+          const node: any = path.node;
+          const statements: any[] = node.type === 'SwitchCase' ? node.consequent : node.body;
+
+          if (this.isRuleEnabled('unreachable')) {
+            const unreachable = this.findUnreachable(statements);
+            if (unreachable) {
+              issues.push(this.createIssue(file, unreachable.first, 'unreachable',
+                `${unreachable.count === 1 ? 'Esta instrução vem' : `Estas ${unreachable.count} instruções vêm`} depois de um ${unreachable.terminator} e nunca ${unreachable.count === 1 ? 'executa' : 'executam'}.`,
+                unreachable.last));
+            }
+          }
+
+          if (path.isBlockStatement() && this.isRuleEnabled('emptyBlock') && this.isEmptyBlock(path)) {
+            issues.push(this.createIssue(file, node, 'emptyBlock', `Bloco vazio em ${this.describeBlockOwner(path)}, sem comentário explicando.`));
+          }
+        },
+        Function: path => {
+          const node: any = path.node;
+          if (!this.isRuleEnabled('emptyFunction') || !this.isEmptyFunction(node)) return;
+
+          issues.push(this.createIssue(file, node, 'emptyFunction', `${this.describeFunction(node, path.parent)} tem o corpo vazio e nenhum comentário explicando.`));
+        },
+        IfStatement: path => {
+          const node: any = path.node;
+
+          if (this.isRuleEnabled('constantCondition') && this.isConstant(node.test)) {
+            issues.push(this.createIssue(file, node.test, 'constantCondition', this.describeConstant(file, node.test)));
+          }
+
+          const isElseIf = path.parentPath.isIfStatement() && path.parentKey === 'alternate';
+          if (!isElseIf && this.isRuleEnabled('duplicateCondition')) {
+            this.checkDuplicateConditions(file, node, issues);
+          }
+        },
+        ConditionalExpression: path => {
+          const test: any = path.node.test;
+          if (this.isRuleEnabled('constantCondition') && this.isConstant(test)) {
+            issues.push(this.createIssue(file, test, 'constantCondition', this.describeConstant(file, test)));
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Primeira e última instrução depois de um return/throw/break/continue no
+   * mesmo bloco. Funções declaradas e tipos depois do desvio continuam
+   * válidos, então não contam.
+   */
+  private findUnreachable(statements: any[]): { first: any; last: any; count: number; terminator: string } | null {
+    const terminatorIndex = statements.findIndex(statement => TERMINATORS.has(statement.type));
+    if (terminatorIndex === -1) return null;
+
+    const dead = statements
+      .slice(terminatorIndex + 1)
+      .filter(statement => !HOISTED_DECLARATIONS.has(statement.type) && !this.isBareVarDeclaration(statement));
+
+    if (dead.length === 0) return null;
+
+    return {
+      first: dead[0],
+      last: dead[dead.length - 1],
+      count: dead.length,
+      terminator: statements[terminatorIndex].type.replace('Statement', '').toLowerCase()
+    };
+  }
+
+  /** `var x;` só é içada; sem inicializador não há o que executar. */
+  private isBareVarDeclaration(statement: any): boolean {
+    return statement.type === 'VariableDeclaration' &&
+           statement.kind === 'var' &&
+           statement.declarations.every((declarator: any) => !declarator.init);
+  }
+
+  /**
+   * Corpo de função tem regra própria e catch vazio fica com o detector de
+   * tratamento de erros; um comentário dentro do bloco conta como intenção.
+   */
+  private isEmptyBlock(path: NodePath): boolean {
+    const node: any = path.node;
+    if (node.body.length > 0 || node.innerComments?.length > 0) return false;
+
+    return !path.parentPath?.isFunction() && !path.parentPath?.isCatchClause();
+  }
+
+  /**
+   * Construtores que só declaram parâmetros de propriedade ou que existem
+   * para mudar a visibilidade (private constructor() {}) não são no-ops.
+   */
+  private isEmptyFunction(node: any): boolean {
+    const body = node.body;
+    if (body?.type !== 'BlockStatement' || body.body.length > 0 || body.innerComments?.length > 0) return false;
+
+    if (node.kind === 'constructor') {
+      const hasParameterProperties = node.params.some((param: any) => param.type === 'TSParameterProperty');
+      if (hasParameterProperties || node.accessibility === 'private' || node.accessibility === 'protected') return false;
+    }
+
+    return true;
+  }
+
+  /** Literais, inclusive negados (!0) e templates sem interpolação. */
+  private isConstant(node: any): boolean {
+    switch (node?.type) {
+      case 'BooleanLiteral':
+      case 'NumericLiteral':
+      case 'StringLiteral':
+      case 'NullLiteral':
+      case 'BigIntLiteral':
+      case 'RegExpLiteral':
+        return true;
+      case 'TemplateLiteral':
+        return node.expressions.length === 0;
+      case 'UnaryExpression':
+        if (node.operator === 'void') return true;
+        return node.operator === '!' && this.isConstant(node.argument);
+      case 'ArrayExpression':
+      case 'ObjectExpression':
+      case 'ArrowFunctionExpression':
+      case 'FunctionExpression':
+        // Sempre verdadeiros
+        return true;
+      case 'ParenthesizedExpression':
+        return this.isConstant(node.expression);
+      default:
+        return false;
+    }
+  }
+
+  private checkDuplicateConditions(file: ParsedFile, head: any, issues: Issue[]): void {
+    const seen = new Map<string, number>();
+    let current = head;
+
+    while (current?.type === 'IfStatement') {
+      const key = this.getSource(file, current.test).replace(/\s+/g, '');
+      const firstLine = seen.get(key);
+
+      if (firstLine !== undefined) {
+        issues.push(this.createIssue(file, current.test, 'duplicateCondition',
+          `A condição "${this.getSource(file, current.test)}" já foi testada na linha ${firstLine}; este ramo nunca executa.`));
+      } else {
+        seen.set(key, current.test.loc?.start?.line ?? 1);
+      }
+
+      current = current.alternate;
+    }
+  }
+
+  private describeConstant(file: ParsedFile, test: any): string {
+    return `A condição "${this.getSource(file, test)}" tem sempre o mesmo valor; um dos ramos nunca executa.`;
+  }
+
+  private describeBlockOwner(path: NodePath): string {
+    const parent: any = path.parent;
+
+    switch (parent.type) {
+      case 'IfStatement': return path.parentKey === 'alternate' ? 'else' : 'if';
+      case 'TryStatement': return path.parentKey === 'finalizer' ? 'finally' : 'try';
+      case 'ForStatement':
+      case 'ForInStatement':
+      case 'ForOfStatement':
+      case 'WhileStatement':
+      case 'DoWhileStatement':
+        return 'laço';
+      default:
+        return 'bloco';
+    }
+  }
+
+  private describeFunction(node: any, parent: any): string {
+    if (node.kind === 'constructor') return 'O construtor';
+    if (node.id?.name) return `A função "${node.id.name}"`;
+    if (node.key?.name) return `O método "${node.key.name}"`;
+    if (node.key?.type === 'PrivateName') return `O método "#${node.key.id.name}"`;
+    if (parent?.type === 'VariableDeclarator' && parent.id?.name) return `A função "${parent.id.name}"`;
+    return node.type === 'ArrowFunctionExpression' ? 'A função arrow' : 'A função anônima';
+  }
+
+  private getSource(file: ParsedFile, node: any): string {
+    if (typeof node.start !== 'number' || typeof node.end !== 'number') return '';
+    return file.content.slice(node.start, node.end);
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: DeadCodeRule, description: string, lastNode?: any): Issue {
+    const definition = DeadCodeDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+
+    if (lastNode?.loc) {
+      location.endLine = lastNode.loc.end.line;
+      location.endColumn = lastNode.loc.end.column;
+    }
+
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.DEAD_CODE)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: Math.min(location.endLine ?? location.line, location.line + 4) }))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
@@ -1,5 +1,6 @@
 import { BaseDetector, ParsedFile } from '../base/detector';
-import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+import { AstTraversal, DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory, IssueLocation } from '../../models/issue';
 import { createLogger } from '../../utils/logger';
 
 interface DuplicationConfig {
@@ -11,14 +12,15 @@ interface DuplicationConfig {
   };
 }
 
-interface CodeBlock {
+export interface CodeBlock {
   id: string;
   startLine: number;
   endLine: number;
   tokens: string[];
   hash: string;
-  node: any;
+  location: IssueLocation;
   filePath: string;
+  fingerprint?: string;
 }
 
 interface DuplicationMatch {
@@ -53,22 +55,8 @@ export class DuplicationDetector extends BaseDetector {
     const issues: Issue[] = [];
     
     try {
-      const fileBlocks = this.extractCodeBlocks(file);
-      this.codeBlocks.push(...fileBlocks);
-      this.processedFiles.add(file.path);
-
-      const duplications = this.findDuplications(fileBlocks);
-      
-      duplications.forEach(duplication => {
-        issues.push(this.createDuplicationIssue(file, duplication));
-      });
-
-      this.duplicationLogger.debug('Análise de duplicação concluída', {
-        file: file.path,
-        blocksExtracted: fileBlocks.length,
-        duplicationsFound: duplications.length
-      });
-
+      const fileBlocks = this.exportBlocks(file);
+      issues.push(...this.registerAndMatch(file, fileBlocks));
     } catch (error) {
       this.duplicationLogger.warn('Análise de duplicação falhou', { 
         file: file.path,
@@ -79,53 +67,88 @@ export class DuplicationDetector extends BaseDetector {
     return issues;
   }
 
-  private extractCodeBlocks(file: ParsedFile): CodeBlock[] {
+  /**
+   * Reconstrói o estado de um arquivo vindo do cache de análise: os blocos
+   * voltam ao índice e as duplicações são recalculadas sem precisar da AST.
+   */
+  restore(file: ParsedFile, blocks: CodeBlock[]): Issue[] {
+    if (!this.isEnabled()) return [];
+
+    try {
+      return this.registerAndMatch(file, blocks);
+    } catch (error) {
+      this.duplicationLogger.warn('Restauração de duplicação falhou', {
+        file: file.path,
+        error: (error as Error).message
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Extrai os blocos do arquivo com fingerprints pré-calculados, prontos para
+   * serializar. Não altera o índice, então pode rodar em uma worker thread.
+   */
+  exportBlocks(file: ParsedFile): CodeBlock[] {
     const blocks: CodeBlock[] = [];
-    let blockId = 0;
+    const pass = this.createBlockPass(file, blocks);
+    if (!pass) return [];
 
-    this.traverseAST(file.ast, file, (node) => {
-      if (this.isExtractableNode(node)) {
-        const block = this.createCodeBlock(file, node, `${file.path}_${blockId++}`);
-        if (this.isValidBlock(block)) {
-          blocks.push(block);
-        }
-      }
-    });
+    const [failure] = AstTraversal.run(file.ast, [{ name: this.detectorName, pass }]).failures.values();
+    if (failure) throw failure;
 
     return blocks;
   }
 
-  private traverseAST(node: any, file: ParsedFile, callback: (node: any) => void): void {
-    if (!node || typeof node !== 'object') return;
+  /**
+   * Versão de exportBlocks para a travessia compartilhada: os blocos vão sendo
+   * acrescentados em `blocks` conforme os nós são visitados.
+   */
+  createBlockPass(file: ParsedFile, blocks: CodeBlock[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
 
-    callback(node);
+    let blockId = 0;
 
-    for (const key in node) {
-      if (key === 'parent' || key === 'leadingComments' || key === 'trailingComments') continue;
-      
-      const child = node[key];
-      if (Array.isArray(child)) {
-        child.forEach(item => this.traverseAST(item, file, callback));
-      } else if (child && typeof child === 'object') {
-        this.traverseAST(child, file, callback);
+    return {
+      visitor: {
+        // Function e Loop são aliases do Babel: incluem métodos e todos os laços
+        'Function|Loop|BlockStatement|IfStatement|SwitchStatement': path => {
+          const block = this.createCodeBlock(file, path.node, `${file.path}_${blockId++}`);
+          if (this.isValidBlock(block)) {
+            blocks.push({
+              ...block,
+              fingerprint: this.generateFingerprint(file, 'codigo-duplicado', block.location)
+            });
+          }
+        }
       }
-    }
+    };
   }
 
-  private isExtractableNode(node: any): boolean {
-    const extractableTypes = [
-      'FunctionDeclaration',
-      'FunctionExpression',
-      'ArrowFunctionExpression',
-      'MethodDefinition',
-      'BlockStatement',
-      'IfStatement',
-      'ForStatement',
-      'WhileStatement',
-      'SwitchStatement'
-    ];
-
-    return extractableTypes.includes(node.type);
+  /**
+   * Registra os blocos do arquivo no índice sem reportar problemas. Usado para
+   * arquivos fora do escopo da análise que ainda podem conter clones.
+   */
+  index(file: ParsedFile, blocks: CodeBlock[]): void {
+    if (!this.isEnabled() || this.processedFiles.has(file.path)) return;
+
+    this.codeBlocks.push(...blocks);
+    this.processedFiles.add(file.path);
+  }
+
+  private registerAndMatch(file: ParsedFile, fileBlocks: CodeBlock[]): Issue[] {
+    this.codeBlocks.push(...fileBlocks);
+    this.processedFiles.add(file.path);
+
+    const duplications = this.findDuplications(fileBlocks);
+
+    this.duplicationLogger.debug('Análise de duplicação concluída', {
+      file: file.path,
+      blocksExtracted: fileBlocks.length,
+      duplicationsFound: duplications.length
+    });
+
+    return duplications.map(duplication => this.createDuplicationIssue(file, duplication));
   }
 
   private createCodeBlock(file: ParsedFile, node: any, id: string): CodeBlock {
@@ -140,7 +163,7 @@ export class DuplicationDetector extends BaseDetector {
       endLine,
       tokens,
       hash,
-      node,
+      location: this.createLocation(file, node),
       filePath: file.path
     };
   }
@@ -279,17 +302,20 @@ export class DuplicationDetector extends BaseDetector {
   private createDuplicationIssue(file: ParsedFile, duplication: DuplicationMatch): Issue {
     const severity = this.getSeverityBySimilarity(duplication.similarity, duplication.duplicatedLines);
     const otherFile = duplication.block2.filePath === file.path ? duplication.block1 : duplication.block2;
+    const location = duplication.block1.location;
+    const fingerprint = duplication.block1.fingerprint ?? this.generateFingerprint(file, 'codigo-duplicado', location);
     
     return IssueBuilder.create()
-      .withId(this.generateIssueId())
+      .withId(this.generateIssueId(fingerprint, location))
       .withCategory(IssueCategory.DUPLICATION)
       .withSeverity(severity)
       .withTitle(`Código duplicado detectado (${Math.round(duplication.similarity * 100)}% similar)`)
       .withDescription(`Bloco de código com ${duplication.duplicatedLines} linha(s) é ${Math.round(duplication.similarity * 100)}% similar ao código em ${otherFile.filePath}:${otherFile.startLine}-${otherFile.endLine}.`)
       .withSuggestion(`Extraia o código duplicado em uma função ou módulo reutilizável. Considere criar uma função utilitária que possa ser importada em ambos os locais.`)
-      .withLocation(this.createLocation(file, duplication.block1.node))
-      .withCodeSnippet(this.extractCodeSnippet(file, this.createLocation(file, duplication.block1.node)))
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
       .withRule('codigo-duplicado')
+      .withFingerprint(fingerprint)
       .build();
   }
 
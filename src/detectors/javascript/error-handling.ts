@@ -0,0 +1,308 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface ErrorHandlingConfig {
+  enabled: boolean;
+  thresholds: {
+    wrappedStatements: number;
+  };
+  rules: {
+    emptyCatch: boolean;
+    catchOnlyLogs: boolean;
+    throwLiteral: boolean;
+    catchParamIgnored: boolean;
+    catchParamShadowed: boolean;
+    rethrowWithoutCause: boolean;
+    tryWrapsFunction: boolean;
+  };
+}
+
+type ErrorHandlingRule = keyof ErrorHandlingConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+interface CatchFrame {
+  name: string;
+  clause: any;
+  reported: boolean;
+}
+
+/** Valores que nunca são instâncias de Error. */
+const NON_ERROR_TYPES = new Set([
+  'StringLiteral',
+  'TemplateLiteral',
+  'NumericLiteral',
+  'BooleanLiteral',
+  'NullLiteral',
+  'BigIntLiteral',
+  'ObjectExpression',
+  'ArrayExpression'
+]);
+
+export class ErrorHandlingDetector extends VisitorDetector {
+  protected readonly analysisName = 'tratamento de erros';
+
+  private defaultConfig: ErrorHandlingConfig = {
+    enabled: true,
+    thresholds: {
+      wrappedStatements: 5
+    },
+    rules: {
+      emptyCatch: true,
+      catchOnlyLogs: true,
+      throwLiteral: true,
+      catchParamIgnored: true,
+      catchParamShadowed: true,
+      rethrowWithoutCause: true,
+      tryWrapsFunction: true
+    }
+  };
+
+  static readonly RULES: Record<ErrorHandlingRule, RuleDefinition> = {
+    emptyCatch: {
+      id: 'catch-vazio',
+      severity: IssueSeverity.HIGH,
+      title: 'catch vazio',
+      suggestion: 'Trate o erro, propague-o ou, se ignorar for mesmo o certo, escreva um comentário no bloco explicando por quê.'
+    },
+    catchOnlyLogs: {
+      id: 'catch-so-loga',
+      severity: IssueSeverity.MEDIUM,
+      title: 'catch que só registra no console',
+      suggestion: 'Depois de registrar, propague o erro ou devolva um resultado que indique a falha. Só logar faz o código seguir como se nada tivesse acontecido.'
+    },
+    throwLiteral: {
+      id: 'throw-sem-error',
+      severity: IssueSeverity.MEDIUM,
+      title: 'throw de valor que não é Error',
+      suggestion: 'Lance uma instância de Error (ou de uma subclasse), como throw new Error(\'mensagem\'). Literais não têm stack trace e quebram quem testa instanceof Error.'
+    },
+    catchParamIgnored: {
+      id: 'erro-ignorado',
+      severity: IssueSeverity.LOW,
+      title: 'Erro capturado e ignorado',
+      suggestion: 'Use o erro capturado (no log, na causa de um novo erro) ou troque por catch { } sem parâmetro para deixar claro que ele é descartado de propósito.'
+    },
+    catchParamShadowed: {
+      id: 'erro-sombreado',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Parâmetro do catch sombreado',
+      suggestion: 'Renomeie a declaração interna. Com o mesmo nome, o erro capturado fica inacessível nesse trecho e é fácil usar um no lugar do outro.'
+    },
+    rethrowWithoutCause: {
+      id: 'erro-sem-causa',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Novo erro lançado sem a causa original',
+      suggestion: 'Passe o erro capturado como causa: throw new Error(\'mensagem\', { cause: erro }). Assim a stack trace original não se perde.'
+    },
+    tryWrapsFunction: {
+      id: 'try-envolve-funcao',
+      severity: IssueSeverity.LOW,
+      title: 'try envolvendo a função inteira',
+      suggestion: 'Deixe dentro do try só as instruções que podem falhar do jeito que o catch sabe tratar, ou trate o erro em quem chama a função.'
+    }
+  };
+
+  constructor(config?: Partial<ErrorHandlingConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.thresholds = { ...this.defaultConfig.thresholds, ...config?.thresholds };
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    // Parâmetros de catch ativos, para achar declarações internas com o mesmo nome
+    const catches: CatchFrame[] = [];
+
+    return {
+      visitor: {
+        Scopable: {
+          enter: path => {
+            if (path.isCatchClause()) {
+              this.checkCatch(file, path, issues);
+              const param: any = path.node.param;
+              if (param?.type === 'Identifier') {
+                catches.push({ name: param.name, clause: path.node, reported: false });
+              }
+              return;
+            }
+
+            if (this.isRuleEnabled('catchParamShadowed')) {
+              this.checkShadowing(file, path, catches, issues);
+            }
+
+            if (path.isFunction() && this.isRuleEnabled('tryWrapsFunction')) {
+              this.checkWrappedBody(file, path.node, issues);
+            }
+          },
+          exit: path => {
+            if (path.isCatchClause() && catches[catches.length - 1]?.clause === path.node) {
+              catches.pop();
+            }
+          }
+        },
+        ThrowStatement: path => {
+          const argument: any = path.node.argument;
+
+          if (this.isRuleEnabled('throwLiteral') && this.isNonError(argument)) {
+            issues.push(this.createIssue(file, path.node, 'throwLiteral',
+              `O throw lança ${this.describeValue(argument)}, que não é uma instância de Error.`));
+          }
+
+          if (this.isRuleEnabled('rethrowWithoutCause')) {
+            const clause = this.findEnclosingCatch(path);
+            if (clause && argument?.type === 'NewExpression' && !this.keepsCause(argument, clause.param)) {
+              issues.push(this.createIssue(file, path.node, 'rethrowWithoutCause',
+                clause.param
+                  ? `Um novo erro é lançado dentro do catch sem { cause: ${this.describeParam(clause.param)} }; a stack trace original se perde.`
+                  : 'Um novo erro é lançado dentro de um catch sem parâmetro; o erro original é descartado.'));
+            }
+          }
+        }
+      }
+    };
+  }
+
+  private checkCatch(file: ParsedFile, path: NodePath, issues: Issue[]): void {
+    const clause: any = path.node;
+    const statements: any[] = clause.body.body;
+
+    if (statements.length === 0) {
+      if (this.isRuleEnabled('emptyCatch') && !(clause.body.innerComments?.length > 0)) {
+        issues.push(this.createIssue(file, clause, 'emptyCatch', 'O erro é capturado e descartado sem nenhum tratamento nem comentário explicando.'));
+      }
+      // Um catch vazio já é apontado (ou está comentado); não vale cobrar o parâmetro
+      return;
+    }
+
+    if (this.isRuleEnabled('catchOnlyLogs') && statements.every(statement => this.isConsoleCall(statement))) {
+      issues.push(this.createIssue(file, clause, 'catchOnlyLogs', 'O catch só escreve o erro no console e a execução continua como se nada tivesse falhado.'));
+    }
+
+    const param: any = clause.param;
+    if (this.isRuleEnabled('catchParamIgnored') && param?.type === 'Identifier' && !param.name.startsWith('_')) {
+      const binding = path.scope?.getOwnBinding(param.name);
+      if (binding && !binding.referenced) {
+        issues.push(this.createIssue(file, clause, 'catchParamIgnored', `O erro "${param.name}" é capturado mas nunca usado no catch.`));
+      }
+    }
+  }
+
+  /** Uma declaração num escopo aninhado ao catch com o nome do parâmetro dele. */
+  private checkShadowing(file: ParsedFile, path: NodePath, catches: CatchFrame[], issues: Issue[]): void {
+    const scope = path.scope;
+    if (!scope || scope.path !== path) return;
+
+    catches.forEach(frame => {
+      if (frame.reported || !scope.hasOwnBinding(frame.name)) return;
+
+      frame.reported = true;
+      const binding = scope.getOwnBinding(frame.name)!;
+      issues.push(this.createIssue(file, binding.identifier, 'catchParamShadowed',
+        `"${frame.name}" é declarado de novo dentro do catch e esconde o erro capturado.`));
+    });
+  }
+
+  /**
+   * Corpo que é só um try/catch com pelo menos `wrappedStatements`
+   * instruções dentro do try. Funções curtas que envolvem uma única
+   * chamada (JSON.parse, leitura de arquivo) são o uso esperado.
+   */
+  private checkWrappedBody(file: ParsedFile, node: any, issues: Issue[]): void {
+    const body = node.body;
+    if (body?.type !== 'BlockStatement' || body.body.length !== 1) return;
+
+    const statement = body.body[0];
+    if (statement.type !== 'TryStatement' || !statement.handler) return;
+
+    const minimum = this.getThreshold('wrappedStatements', this.defaultConfig.thresholds.wrappedStatements);
+    const count = statement.block.body.length;
+    if (count < minimum) return;
+
+    issues.push(this.createIssue(file, statement, 'tryWrapsFunction',
+      `O try envolve o corpo inteiro da função (${count} instruções); qualquer falha, esperada ou não, cai no mesmo catch.`, true));
+  }
+
+  /** catch mais próximo, sem atravessar funções: dentro de um callback o contexto é outro. */
+  private findEnclosingCatch(path: NodePath): any {
+    const found = path.findParent(parent => parent.isFunction() || parent.isCatchClause());
+    return found?.isCatchClause() ? found.node : null;
+  }
+
+  /** { cause } em algum argumento, ou o próprio erro passado adiante (new AppError('x', erro)). */
+  private keepsCause(expression: any, param: any): boolean {
+    return (expression.arguments ?? []).some((argument: any) => {
+      if (argument.type === 'ObjectExpression') {
+        return argument.properties.some((property: any) =>
+          property.type === 'SpreadElement' ||
+          (property.key?.type === 'Identifier' && property.key.name === 'cause') ||
+          (property.key?.type === 'StringLiteral' && property.key.value === 'cause'));
+      }
+      return param?.type === 'Identifier' && argument.type === 'Identifier' && argument.name === param.name;
+    });
+  }
+
+  private isNonError(node: any): boolean {
+    if (!node) return false;
+    if (node.type === 'Identifier') return node.name === 'undefined';
+    return NON_ERROR_TYPES.has(node.type);
+  }
+
+  private isConsoleCall(statement: any): boolean {
+    const expression = statement.type === 'ExpressionStatement' ? statement.expression : null;
+    const callee = expression?.type === 'CallExpression' ? expression.callee : null;
+    return callee?.type === 'MemberExpression' &&
+           callee.object.type === 'Identifier' &&
+           callee.object.name === 'console';
+  }
+
+  private describeValue(node: any): string {
+    switch (node.type) {
+      case 'StringLiteral':
+      case 'TemplateLiteral':
+        return 'uma string';
+      case 'NumericLiteral':
+      case 'BigIntLiteral':
+        return 'um número';
+      case 'BooleanLiteral':
+        return 'um booleano';
+      case 'ObjectExpression':
+        return 'um objeto literal';
+      case 'ArrayExpression':
+        return 'um array';
+      default:
+        return node.type === 'NullLiteral' ? 'null' : 'undefined';
+    }
+  }
+
+  private describeParam(param: any): string {
+    return param.type === 'Identifier' ? param.name : 'erro';
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: ErrorHandlingRule, description: string, headerOnly: boolean = false): Issue {
+    const definition = ErrorHandlingDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.BEST_PRACTICES)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: headerOnly ? location.line : Math.min(location.endLine ?? location.line, location.line + 4) }))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
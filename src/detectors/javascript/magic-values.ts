@@ -0,0 +1,395 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { AstTraversal, DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory, IssueLocation } from '../../models/issue';
+import { createLogger } from '../../utils/logger';
+
+interface MagicValuesConfig {
+  enabled: boolean;
+  thresholds: {
+    fileStrings: number;
+    projectStrings: number;
+    minStringLength: number;
+  };
+  rules: {
+    magicNumbers: boolean;
+    repeatedStrings: boolean;
+    projectRepeatedStrings: boolean;
+  };
+  allowlist: {
+    numbers: number[];
+    strings: string[];
+  };
+}
+
+type MagicValuesRule = keyof MagicValuesConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+/**
+ * Ocorrências de uma string em um arquivo, com fingerprints pré-calculados
+ * para poder gerar os problemas na consolidação, já sem a AST.
+ */
+export interface StringLiteralUse {
+  value: string;
+  count: number;
+  lines: number[];
+  location: IssueLocation;
+  fingerprints: Record<'file' | 'project', string>;
+}
+
+interface ProjectString {
+  count: number;
+  files: Set<string>;
+}
+
+/** Expressões que continuam "constantes" quando montadas só com literais: 60 * 1000, [1, 2], { max: 10 }. */
+const CONSTANT_WRAPPERS = new Set([
+  'UnaryExpression', 'BinaryExpression', 'ArrayExpression', 'ObjectExpression',
+  'TSAsExpression', 'TSSatisfiesExpression', 'TSTypeAssertion'
+]);
+
+const MODULE_SOURCE_PARENTS = new Set([
+  'ImportDeclaration', 'ExportNamedDeclaration', 'ExportAllDeclaration',
+  'ImportExpression', 'TSExternalModuleReference', 'TSImportType', 'TSModuleDeclaration'
+]);
+
+const MAX_LISTED_LINES = 5;
+
+export class MagicValuesDetector extends VisitorDetector {
+  protected readonly analysisName = 'valores mágicos';
+
+  private defaultConfig: MagicValuesConfig = {
+    enabled: true,
+    thresholds: {
+      fileStrings: 3,
+      projectStrings: 10,
+      minStringLength: 3
+    },
+    rules: {
+      magicNumbers: true,
+      repeatedStrings: true,
+      projectRepeatedStrings: true
+    },
+    allowlist: {
+      numbers: [0, 1, -1, 2],
+      strings: []
+    }
+  };
+
+  static readonly RULES: Record<MagicValuesRule, RuleDefinition> = {
+    magicNumbers: {
+      id: 'numero-magico',
+      severity: IssueSeverity.LOW,
+      title: 'Número mágico',
+      suggestion: 'Dê um nome ao valor com uma constante (const TEMPO_LIMITE_MS = 30000) ou um membro de enum. O nome explica o significado e evita que o mesmo número mude em um lugar e fique velho em outro.'
+    },
+    repeatedStrings: {
+      id: 'string-repetida',
+      severity: IssueSeverity.LOW,
+      title: 'String repetida no arquivo',
+      suggestion: 'Extraia a string para uma constante ou enum e use o nome em todos os lugares. Assim um erro de digitação vira erro de compilação e a mudança acontece em um lugar só.'
+    },
+    projectRepeatedStrings: {
+      id: 'string-repetida-no-projeto',
+      severity: IssueSeverity.LOW,
+      title: 'String repetida em vários arquivos',
+      suggestion: 'Defina a string em um módulo compartilhado de constantes e importe de lá nos arquivos que a usam.'
+    }
+  };
+
+  private magicLogger = createLogger('MagicValuesDetector');
+  private allowedNumbers: Set<number>;
+  private allowedStrings: Set<string>;
+  private projectStrings = new Map<string, ProjectString>();
+  private processedFiles = new Set<string>();
+
+  constructor(config?: Partial<MagicValuesConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.thresholds = { ...this.defaultConfig.thresholds, ...config?.thresholds };
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+    this.allowedNumbers = new Set(config?.allowlist?.numbers ?? this.defaultConfig.allowlist.numbers);
+    this.allowedStrings = new Set(config?.allowlist?.strings ?? this.defaultConfig.allowlist.strings);
+  }
+
+  /** Números mágicos; as strings repetidas dependem dos outros arquivos e saem em restore(). */
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled() || !this.isRuleEnabled('magicNumbers')) return null;
+
+    return {
+      visitor: {
+        NumericLiteral: path => {
+          const parent: any = path.parent;
+          const isSigned = parent.type === 'UnaryExpression' && (parent.operator === '-' || parent.operator === '+');
+          const target: NodePath = isSigned ? path.parentPath! : path;
+          const value = isSigned && parent.operator === '-' ? -path.node.value : path.node.value;
+
+          if (this.allowedNumbers.has(value) || this.isExemptNumber(target)) return;
+
+          issues.push(this.createIssue(file, target.node, 'magicNumbers', `O número ${this.getSource(file, target.node)} aparece sem nome que explique o seu significado.`));
+        }
+      }
+    };
+  }
+
+  detect(file: ParsedFile): Issue[] {
+    const issues = super.detect(file);
+
+    try {
+      issues.push(...this.restore(file, this.exportStrings(file)));
+    } catch (error) {
+      this.magicLogger.warn('Contagem de strings falhou', {
+        file: file.path,
+        error: (error as Error).message
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Conta as strings do arquivo e prepara os dados serializáveis. Não altera o
+   * índice do projeto, então pode rodar em uma worker thread.
+   */
+  exportStrings(file: ParsedFile): StringLiteralUse[] {
+    const strings: StringLiteralUse[] = [];
+    const pass = this.createStringPass(file, strings);
+    if (!pass) return [];
+
+    const [failure] = AstTraversal.run(file.ast, [{ name: this.detectorName, pass }]).failures.values();
+    if (failure) throw failure;
+
+    return strings;
+  }
+
+  /**
+   * Versão de exportStrings para a travessia compartilhada: `strings` é
+   * preenchido no finish, depois que o arquivo inteiro foi percorrido.
+   */
+  createStringPass(file: ParsedFile, strings: StringLiteralUse[]): DetectorPass | null {
+    if (!this.isEnabled() || (!this.isRuleEnabled('repeatedStrings') && !this.isRuleEnabled('projectRepeatedStrings'))) {
+      return null;
+    }
+
+    const minLength = this.getThreshold('minStringLength', this.defaultConfig.thresholds.minStringLength);
+    const found = new Map<string, any[]>();
+
+    const record = (path: NodePath, value: string) => {
+      if (value.trim().length < minLength || this.allowedStrings.has(value) || this.isExemptString(path)) return;
+
+      if (!found.has(value)) found.set(value, []);
+      found.get(value)!.push(path.node);
+    };
+
+    return {
+      visitor: {
+        StringLiteral: path => record(path, path.node.value),
+        TemplateLiteral: path => {
+          const quasi = path.node.quasis[0];
+          if (path.node.expressions.length === 0 && quasi.value.cooked != null) record(path, quasi.value.cooked);
+        }
+      },
+      finish: () => {
+        found.forEach((nodes, value) => {
+          const location = this.createLocation(file, nodes[0]);
+          strings.push({
+            value,
+            count: nodes.length,
+            lines: nodes.map(node => node.loc?.start?.line ?? 1),
+            location,
+            fingerprints: {
+              file: this.generateFingerprint(file, MagicValuesDetector.RULES.repeatedStrings.id, location),
+              project: this.generateFingerprint(file, MagicValuesDetector.RULES.projectRepeatedStrings.id, location)
+            }
+          });
+        });
+      }
+    };
+  }
+
+  /**
+   * Devolve os problemas de repetição do arquivo. A repetição entre arquivos
+   * compara com o total do projeto, então todos os arquivos devem passar por
+   * index() antes: assim ela é apontada em todos os arquivos que usam a string,
+   * qualquer que seja a ordem. Um arquivo ainda não indexado é registrado aqui.
+   */
+  restore(file: ParsedFile, strings: StringLiteralUse[]): Issue[] {
+    if (!this.isEnabled()) return [];
+
+    this.index(file, strings);
+
+    const fileLimit = this.getThreshold('fileStrings', this.defaultConfig.thresholds.fileStrings);
+    const projectLimit = this.getThreshold('projectStrings', this.defaultConfig.thresholds.projectStrings);
+    const issues: Issue[] = [];
+
+    strings.forEach(use => {
+      if (use.count > fileLimit && this.isRuleEnabled('repeatedStrings')) {
+        const lines = use.lines.slice(0, MAX_LISTED_LINES).join(', ') + (use.lines.length > MAX_LISTED_LINES ? ', ...' : '');
+        issues.push(this.createStringIssue(file, use, 'repeatedStrings',
+          `A string ${this.preview(use.value)} aparece ${use.count} vezes neste arquivo, nas linhas ${lines} (limite ${fileLimit}).`));
+        return;
+      }
+
+      const project = this.projectStrings.get(use.value)!;
+      if (project.count > projectLimit && project.files.size > 1 && this.isRuleEnabled('projectRepeatedStrings')) {
+        const others = project.files.size - 1;
+        issues.push(this.createStringIssue(file, use, 'projectRepeatedStrings',
+          `A string ${this.preview(use.value)} aparece ${project.count} vezes no projeto, aqui e em mais ${others} arquivo${others > 1 ? 's' : ''} (limite ${projectLimit}).`));
+      }
+    });
+
+    this.magicLogger.debug('Contagem de strings concluída', {
+      file: file.path,
+      distinctStrings: strings.length,
+      issues: issues.length
+    });
+
+    return issues;
+  }
+
+  /**
+   * Registra as strings do arquivo sem reportar problemas: antes da
+   * consolidação, para fechar o total do projeto, e para arquivos fora do
+   * escopo da análise que ainda contam para ele.
+   */
+  index(file: ParsedFile, strings: StringLiteralUse[]): void {
+    if (!this.isEnabled() || this.processedFiles.has(file.path)) return;
+
+    this.register(file, strings);
+  }
+
+  private register(file: ParsedFile, strings: StringLiteralUse[]): void {
+    strings.forEach(use => {
+      if (!this.projectStrings.has(use.value)) {
+        this.projectStrings.set(use.value, { count: 0, files: new Set() });
+      }
+      const project = this.projectStrings.get(use.value)!;
+      project.count += use.count;
+      project.files.add(file.path);
+    });
+
+    this.processedFiles.add(file.path);
+  }
+
+  private isExemptNumber(path: NodePath): boolean {
+    const parent: any = path.parent;
+
+    if (parent.type === 'TSLiteralType') return true;
+    if ((parent.type === 'ObjectProperty' || parent.type === 'ClassProperty') && parent.key === path.node) return true;
+    // parseInt(valor, 10)
+    if (parent.type === 'CallExpression' && parent.arguments[1] === path.node && this.getCalleeName(parent.callee) === 'parseInt') return true;
+
+    return this.isNamedValue(path);
+  }
+
+  private isExemptString(path: NodePath): boolean {
+    const parent: any = path.parent;
+
+    if (MODULE_SOURCE_PARENTS.has(parent.type) || parent.type === 'TSLiteralType' || parent.type === 'JSXAttribute') return true;
+    if (parent.type === 'TaggedTemplateExpression' || (parent.type === 'TSEnumMember' && parent.id === path.node)) return true;
+    if ((parent.type === 'ObjectProperty' || parent.type === 'ClassProperty' || parent.type === 'ObjectMethod' ||
+         parent.type === 'ClassMethod' || parent.type === 'TSPropertySignature') && parent.key === path.node) return true;
+    if ((parent.type === 'MemberExpression' || parent.type === 'OptionalMemberExpression') && parent.property === path.node) return true;
+    // require('x') e import('x')
+    if (parent.type === 'CallExpression' && (parent.callee.type === 'Import' || this.getCalleeName(parent.callee) === 'require')) return true;
+    if (parent.type === 'BinaryExpression' && this.isTypeofComparison(parent)) return true;
+
+    return this.isNamedValue(path);
+  }
+
+  /**
+   * O valor já tem nome quando inicializa uma const, uma propriedade readonly
+   * ou um membro de enum, ou quando é o valor padrão de um parâmetro, mesmo
+   * dentro de uma expressão só de literais (60 * 1000, { max: 10 }).
+   */
+  private isNamedValue(path: NodePath): boolean {
+    let current: NodePath = path;
+    let parent = path.parentPath;
+
+    while (parent && (CONSTANT_WRAPPERS.has(parent.node.type) || (parent.isObjectProperty() && parent.node.value === current.node))) {
+      current = parent;
+      parent = parent.parentPath;
+    }
+    if (!parent) return false;
+
+    const node: any = parent.node;
+    switch (node.type) {
+      case 'VariableDeclarator':
+        return node.init === current.node && (parent.parent as any).kind === 'const';
+      case 'ClassProperty':
+        return node.value === current.node && Boolean(node.readonly);
+      case 'TSEnumMember':
+        return node.initializer === current.node;
+      case 'AssignmentPattern':
+        return node.right === current.node;
+      default:
+        return false;
+    }
+  }
+
+  private isTypeofComparison(node: any): boolean {
+    const isTypeof = (side: any) => side.type === 'UnaryExpression' && side.operator === 'typeof';
+    return ['==', '===', '!=', '!=='].includes(node.operator) && (isTypeof(node.left) || isTypeof(node.right));
+  }
+
+  private getCalleeName(callee: any): string | null {
+    if (callee.type === 'Identifier') return callee.name;
+    if (callee.type === 'MemberExpression' && !callee.computed) return callee.property.name;
+    return null;
+  }
+
+  private getSource(file: ParsedFile, node: any): string {
+    if (typeof node.start !== 'number' || typeof node.end !== 'number') return '';
+    return file.content.slice(node.start, node.end);
+  }
+
+  private preview(value: string): string {
+    const singleLine = value.replace(/\s+/g, ' ');
+    return JSON.stringify(singleLine.length > 40 ? `${singleLine.slice(0, 37)}...` : singleLine);
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: MagicValuesRule, description: string): Issue {
+    const location = this.createLocation(file, node);
+    return this.buildIssue(file, location, rule, description, this.generateFingerprint(file, MagicValuesDetector.RULES[rule].id, location));
+  }
+
+  private createStringIssue(file: ParsedFile, use: StringLiteralUse, rule: MagicValuesRule, description: string): Issue {
+    const fingerprint = rule === 'projectRepeatedStrings' ? use.fingerprints.project : use.fingerprints.file;
+    return this.buildIssue(file, use.location, rule, description, fingerprint);
+  }
+
+  private buildIssue(file: ParsedFile, location: IssueLocation, rule: MagicValuesRule, description: string, fingerprint: string): Issue {
+    const definition = MagicValuesDetector.RULES[rule];
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.BEST_PRACTICES)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: location.line }))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+
+  reset(): void {
+    this.projectStrings.clear();
+    this.processedFiles.clear();
+    this.magicLogger.debug('Contagem de strings do projeto resetada');
+  }
+
+  getStats(): { distinctStrings: number; processedFiles: number } {
+    return {
+      distinctStrings: this.projectStrings.size,
+      processedFiles: this.processedFiles.size
+    };
+  }
+}
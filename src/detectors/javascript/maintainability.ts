@@ -0,0 +1,361 @@
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { MetricsCollector } from '../base/metrics';
+import { getCyclomaticIncrement } from './complexity';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+import { HalsteadMetrics } from '../../models/report';
+
+interface MaintainabilityConfig {
+  enabled: boolean;
+  thresholds: {
+    function: number;
+    file: number;
+  };
+}
+
+/** Operadores e operandos contados em uma função ou no arquivo inteiro. */
+interface HalsteadCounter {
+  operators: Set<string>;
+  operands: Set<string>;
+  totalOperators: number;
+  totalOperands: number;
+  complexity: number;
+}
+
+interface FunctionFrame extends HalsteadCounter {
+  node: any;
+  name: string;
+}
+
+const OPERATOR_KEYWORDS: Record<string, string> = {
+  ReturnStatement: 'return',
+  ThrowStatement: 'throw',
+  TryStatement: 'try',
+  CatchClause: 'catch',
+  BreakStatement: 'break',
+  ContinueStatement: 'continue',
+  SwitchStatement: 'switch',
+  ForStatement: 'for',
+  ForInStatement: 'for-in',
+  ForOfStatement: 'for-of',
+  WhileStatement: 'while',
+  DoWhileStatement: 'do',
+  NewExpression: 'new',
+  AwaitExpression: 'await',
+  YieldExpression: 'yield',
+  ConditionalExpression: '?:',
+  CallExpression: '()',
+  OptionalCallExpression: '?.()',
+  SpreadElement: '...',
+  RestElement: '...',
+  ArrayExpression: '[]',
+  ObjectExpression: '{}',
+  TemplateLiteral: '``',
+  ClassDeclaration: 'class',
+  ClassExpression: 'class',
+  ArrowFunctionExpression: '=>',
+  FunctionDeclaration: 'function',
+  FunctionExpression: 'function',
+  JSXElement: '<>',
+  JSXExpressionContainer: '{}'
+};
+
+export class MaintainabilityDetector extends VisitorDetector {
+  protected readonly analysisName = 'manutenibilidade';
+
+  private defaultConfig: MaintainabilityConfig = {
+    enabled: true,
+    thresholds: {
+      function: 20,
+      file: 20
+    }
+  };
+
+  constructor(config?: Partial<MaintainabilityConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.thresholds = { ...this.defaultConfig.thresholds, ...config?.thresholds };
+  }
+
+  /**
+   * Conta operadores e operandos de Halstead nó a nó. Assim como na
+   * complexidade ciclomática, cada contagem vale para todas as funções
+   * abertas e para o arquivo. Anotações de tipo do TypeScript não entram:
+   * elas somem no código executado.
+   */
+  createPass(file: ParsedFile, issues: Issue[], metrics: MetricsCollector): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    const fileCounter = this.createCounter();
+    const stack: FunctionFrame[] = [];
+    const functionIndexes: number[] = [];
+    let typeDepth = 0;
+
+    const count = (kind: 'operator' | 'operand', token: string) => {
+      [fileCounter, ...stack].forEach(counter => {
+        if (kind === 'operator') {
+          counter.operators.add(token);
+          counter.totalOperators++;
+        } else {
+          counter.operands.add(token);
+          counter.totalOperands++;
+        }
+      });
+    };
+
+    return {
+      visitor: {
+        enter: path => {
+          // O visitante genérico roda antes do Function.enter; a função
+          // precisa estar na pilha para contar a própria palavra-chave
+          if (path.isFunction()) {
+            stack.push({
+              ...this.createCounter(),
+              node: path.node,
+              name: this.extractFunctionName(path.node, path.parent)
+            });
+          }
+
+          if (typeDepth > 0) return;
+
+          const increment = getCyclomaticIncrement(path.node);
+          if (increment > 0) {
+            [fileCounter, ...stack].forEach(counter => {
+              counter.complexity += increment;
+            });
+          }
+
+          this.collectTokens(path.node, count);
+        },
+        'TSType|TSInterfaceDeclaration|TSTypeAliasDeclaration|TSDeclareFunction|TSDeclareMethod': {
+          enter: () => {
+            typeDepth++;
+          },
+          exit: () => {
+            typeDepth--;
+          }
+        },
+        Function: {
+          exit: () => {
+            const frame = stack.pop()!;
+            const halstead = this.calculateHalstead(frame);
+            const maintainabilityIndex = this.calculateMaintainabilityIndex(
+              halstead.volume,
+              frame.complexity,
+              this.calculateNodeLines(frame.node)
+            );
+
+            metrics.recordFunction(frame.node, frame.name, { halstead, maintainabilityIndex });
+            functionIndexes.push(maintainabilityIndex);
+
+            if (maintainabilityIndex < this.getThreshold('function', this.defaultConfig.thresholds.function)) {
+              issues.push(this.createFunctionIssue(file, frame, halstead, maintainabilityIndex));
+            }
+          }
+        }
+      },
+      finish: () => {
+        const halstead = this.calculateHalstead(fileCounter);
+
+        // Como no Visual Studio, o índice do arquivo é a média das suas funções
+        const maintainabilityIndex = functionIndexes.length > 0
+          ? this.round(functionIndexes.reduce((sum, index) => sum + index, 0) / functionIndexes.length)
+          : this.calculateMaintainabilityIndex(halstead.volume, fileCounter.complexity, file.linesOfCode);
+
+        metrics.recordFile({ halstead, maintainabilityIndex });
+
+        if (maintainabilityIndex < this.getThreshold('file', this.defaultConfig.thresholds.file)) {
+          issues.push(this.createFileIssue(file, halstead, maintainabilityIndex));
+        }
+
+        // Funções são fechadas de dentro para fora; o relatório segue a ordem do código
+        issues.sort((a, b) => a.location.line - b.location.line || a.location.column - b.location.column);
+      }
+    };
+  }
+
+  /**
+   * Operadores são os símbolos e palavras-chave que agem sobre os dados;
+   * operandos são identificadores e literais. Cada nó contribui com o que
+   * ele mesmo escreveria no código, sem olhar os filhos.
+   */
+  private collectTokens(node: any, count: (kind: 'operator' | 'operand', token: string) => void): void {
+    switch (node.type) {
+      case 'Identifier':
+      case 'JSXIdentifier':
+        count('operand', node.name);
+        return;
+      case 'PrivateName':
+        count('operator', '#');
+        return;
+      case 'StringLiteral':
+        count('operand', JSON.stringify(node.value));
+        return;
+      case 'NumericLiteral':
+      case 'BigIntLiteral':
+      case 'BooleanLiteral':
+        count('operand', String(node.value));
+        return;
+      case 'NullLiteral':
+        count('operand', 'null');
+        return;
+      case 'RegExpLiteral':
+        count('operand', `/${node.pattern}/${node.flags}`);
+        return;
+      case 'TemplateElement':
+        if (node.value.raw) count('operand', JSON.stringify(node.value.raw));
+        return;
+      case 'JSXText':
+        if (node.value.trim()) count('operand', JSON.stringify(node.value.trim()));
+        return;
+      case 'ThisExpression':
+        count('operand', 'this');
+        return;
+      case 'Super':
+        count('operand', 'super');
+        return;
+      case 'BinaryExpression':
+      case 'LogicalExpression':
+      case 'AssignmentExpression':
+      case 'UnaryExpression':
+      case 'UpdateExpression':
+        count('operator', node.operator);
+        return;
+      case 'MemberExpression':
+      case 'OptionalMemberExpression':
+        count('operator', `${node.optional ? '?.' : ''}${node.computed ? '[]' : '.'}`);
+        return;
+      case 'VariableDeclaration':
+        count('operator', node.kind);
+        return;
+      case 'VariableDeclarator':
+        if (node.init) count('operator', '=');
+        return;
+      case 'AssignmentPattern':
+        count('operator', '=');
+        return;
+      case 'IfStatement':
+        count('operator', 'if');
+        if (node.alternate) count('operator', 'else');
+        return;
+      case 'SwitchCase':
+        count('operator', node.test ? 'case' : 'default');
+        return;
+      case 'ClassMethod':
+      case 'ClassPrivateMethod':
+      case 'ObjectMethod':
+        count('operator', node.kind === 'get' || node.kind === 'set' ? node.kind : '()');
+        return;
+    }
+
+    const keyword = OPERATOR_KEYWORDS[node.type];
+    if (keyword) count('operator', keyword);
+  }
+
+  private calculateHalstead(counter: HalsteadCounter): HalsteadMetrics {
+    const distinctOperators = counter.operators.size;
+    const distinctOperands = counter.operands.size;
+    const vocabulary = distinctOperators + distinctOperands;
+    const length = counter.totalOperators + counter.totalOperands;
+    const volume = vocabulary > 1 ? length * Math.log2(vocabulary) : 0;
+    const difficulty = distinctOperands > 0
+      ? (distinctOperators / 2) * (counter.totalOperands / distinctOperands)
+      : 0;
+    const effort = difficulty * volume;
+
+    return {
+      distinctOperators,
+      distinctOperands,
+      totalOperators: counter.totalOperators,
+      totalOperands: counter.totalOperands,
+      vocabulary,
+      length,
+      volume: this.round(volume),
+      difficulty: this.round(difficulty),
+      effort: this.round(effort),
+      estimatedBugs: this.round(volume / 3000)
+    };
+  }
+
+  /**
+   * Fórmula clássica (171 − 5,2·ln V − 0,23·G − 16,2·ln LOC) levada para a
+   * escala 0–100, como no Visual Studio: abaixo de 20 o código já é difícil
+   * de manter e abaixo de 10, crítico.
+   */
+  private calculateMaintainabilityIndex(volume: number, complexity: number, lines: number): number {
+    const raw = 171
+      - 5.2 * Math.log(Math.max(volume, 1))
+      - 0.23 * complexity
+      - 16.2 * Math.log(Math.max(lines, 1));
+
+    return this.round(Math.min(100, Math.max(0, raw * 100 / 171)));
+  }
+
+  private createCounter(): HalsteadCounter {
+    return { operators: new Set(), operands: new Set(), totalOperators: 0, totalOperands: 0, complexity: 1 };
+  }
+
+  private createFunctionIssue(file: ParsedFile, frame: FunctionFrame, halstead: HalsteadMetrics, index: number): Issue {
+    const threshold = this.getThreshold('function', this.defaultConfig.thresholds.function);
+    const location = this.createLocation(file, frame.node);
+    const fingerprint = this.generateFingerprint(file, 'indice-manutenibilidade', location);
+    const lines = this.calculateNodeLines(frame.node);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.COMPLEXITY)
+      .withSeverity(this.getSeverityByIndex(index, threshold))
+      .withTitle(`Baixa manutenibilidade: "${frame.name}" (${index})`)
+      .withDescription(`A função "${frame.name}" tem índice de manutenibilidade ${index}, abaixo do mínimo de ${threshold}. O índice combina o volume de Halstead (${halstead.volume}), a complexidade ciclomática (${frame.complexity}) e o tamanho (${lines} linhas).`)
+      .withSuggestion('Divida a função em partes menores, reduza os pontos de decisão e dê nome a expressões longas com variáveis intermediárias. Cada um desses fatores pesa no índice.')
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: location.line }))
+      .withRule('indice-manutenibilidade')
+      .withFingerprint(fingerprint)
+      .build();
+  }
+
+  private createFileIssue(file: ParsedFile, halstead: HalsteadMetrics, index: number): Issue {
+    const threshold = this.getThreshold('file', this.defaultConfig.thresholds.file);
+    const location = { file: file.path, line: 1, column: 0 };
+    const fingerprint = this.generateFingerprint(file, 'indice-manutenibilidade-arquivo', location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.COMPLEXITY)
+      .withSeverity(this.getSeverityByIndex(index, threshold))
+      .withTitle(`Arquivo com baixa manutenibilidade (${index})`)
+      .withDescription(`O arquivo tem índice de manutenibilidade ${index} (média das suas funções), abaixo do mínimo de ${threshold}. Volume de Halstead: ${halstead.volume}; bugs estimados: ${halstead.estimatedBugs}.`)
+      .withSuggestion('Comece pelas funções com o índice mais baixo: divida-as e reduza os pontos de decisão. Se o arquivo concentra responsabilidades demais, separe-o em módulos.')
+      .withLocation(location)
+      .withRule('indice-manutenibilidade-arquivo')
+      .withFingerprint(fingerprint)
+      .build();
+  }
+
+  private calculateNodeLines(node: any): number {
+    if (!node.loc) return 0;
+    return (node.loc.end?.line || 0) - (node.loc.start?.line || 0) + 1;
+  }
+
+  private extractFunctionName(node: any, parent?: any): string {
+    if (node.id?.name) return node.id.name;
+    if (node.key?.name) return node.key.name;
+    if (node.key?.type === 'PrivateName') return `#${node.key.id.name}`;
+    if (parent?.type === 'VariableDeclarator' && parent.id?.name) return parent.id.name;
+    if (node.type === 'ArrowFunctionExpression') return 'função arrow anônima';
+    return 'função anônima';
+  }
+
+  private getSeverityByIndex(index: number, threshold: number): IssueSeverity {
+    const ratio = index / threshold;
+
+    if (ratio < 0.25) return IssueSeverity.CRITICAL;
+    if (ratio < 0.5) return IssueSeverity.HIGH;
+    if (ratio < 0.75) return IssueSeverity.MEDIUM;
+    return IssueSeverity.LOW;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
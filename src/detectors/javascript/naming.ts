@@ -1,4 +1,6 @@
-import { BaseDetector, ParsedFile } from '../base/detector';
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
 import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
 
 interface NamingConfig {
@@ -15,7 +17,9 @@ interface NamingConfig {
   };
 }
 
-export class NamingDetector extends BaseDetector {
+export class NamingDetector extends VisitorDetector {
+  protected readonly analysisName = 'nomenclatura';
+
   private defaultConfig: NamingConfig = {
     enabled: true,
     thresholds: {
@@ -32,6 +36,16 @@ export class NamingDetector extends BaseDetector {
 
   private reservedWords = ['temp', 'tmp', 'data', 'info', 'obj', 'item', 'elem', 'val', 'num'];
   private abbreviations = ['btn', 'txt', 'img', 'div', 'el', 'str', 'arr', 'fn'];
+  private plurals: Record<string, string> = {
+    'função': 'funções',
+    'método': 'métodos',
+    'variável': 'variáveis',
+    'propriedade': 'propriedades',
+    'classe': 'classes',
+    'interface': 'interfaces',
+    'tipo': 'tipos',
+    'enum': 'enums'
+  };
 
   constructor(config?: Partial<NamingConfig>) {
     super({ ...config, enabled: config?.enabled ?? true });
@@ -39,95 +53,69 @@ export class NamingDetector extends BaseDetector {
     this.config = { ...this.defaultConfig, ...config };
   }
 
-  detect(file: ParsedFile): Issue[] {
-    if (!this.isEnabled()) return [];
-
-    const issues: Issue[] = [];
-    
-    try {
-      this.traverseAST(file.ast, file, issues);
-    } catch (error) {
-      console.warn(`Análise de nomenclatura falhou para ${file.path}:`, error);
-    }
-
-    return issues;
-  }
-
-  private traverseAST(node: any, file: ParsedFile, issues: Issue[]): void {
-    if (!node || typeof node !== 'object') return;
-
-    // Verificar diferentes tipos de identificadores
-    if (node.type === 'FunctionDeclaration' && node.id?.name) {
-      this.checkFunctionName(file, node, node.id.name, issues);
-    }
-
-    if (node.type === 'VariableDeclarator' && node.id?.name) {
-      this.checkVariableName(file, node, node.id.name, issues);
-    }
-
-    if (node.type === 'ClassDeclaration' && node.id?.name) {
-      this.checkClassName(file, node, node.id.name, issues);
-    }
-
-    if (node.type === 'MethodDefinition' && node.key?.name) {
-      this.checkMethodName(file, node, node.key.name, issues);
-    }
-
-    if (node.type === 'Property' && node.key?.name && !node.computed) {
-      this.checkPropertyName(file, node, node.key.name, issues);
-    }
-
-    // Percorrer recursivamente nós filhos
-    for (const key in node) {
-      if (key === 'parent' || key === 'leadingComments' || key === 'trailingComments') continue;
-      
-      const child = node[key];
-      if (Array.isArray(child)) {
-        child.forEach(item => this.traverseAST(item, file, issues));
-      } else if (child && typeof child === 'object') {
-        this.traverseAST(child, file, issues);
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    const check = (node: any, name: string | null, type: string) => {
+      if (!name) return;
+      this.analyzeIdentifier(name, type).forEach(problem => {
+        issues.push(this.createNamingIssue(file, node, name, problem, type));
+      });
+    };
+
+    return {
+      visitor: {
+        FunctionDeclaration: path => {
+          check(path.node, path.node.id?.name ?? null, 'função');
+        },
+        VariableDeclarator: path => {
+          const id: any = path.node.id;
+          if (id.name) {
+            check(path.node, id.name, this.isConstantVariable(path, id.name) ? 'constante' : 'variável');
+          }
+        },
+        'ClassDeclaration|ClassExpression': path => {
+          const node: any = path.node;
+          check(node, node.id?.name ?? null, 'classe');
+        },
+        'ClassMethod|ClassPrivateMethod|ObjectMethod|TSDeclareMethod': path => {
+          const node: any = path.node;
+          if (node.kind === 'constructor') return;
+          check(node, this.getKeyName(node), 'método');
+        },
+        ObjectProperty: path => {
+          // Na forma abreviada ({ nome }) o nome já foi verificado na declaração
+          if (path.node.shorthand) return;
+          check(path.node, this.getKeyName(path.node), 'propriedade');
+        },
+        'ClassProperty|ClassPrivateProperty|ClassAccessorProperty': path => {
+          const node: any = path.node;
+          const name = this.getKeyName(node);
+          check(node, name, name && this.isConstantField(node, name) ? 'constante' : 'propriedade');
+        },
+        TSInterfaceDeclaration: path => {
+          check(path.node, path.node.id.name, 'interface');
+        },
+        TSTypeAliasDeclaration: path => {
+          check(path.node, path.node.id.name, 'tipo');
+        },
+        TSEnumDeclaration: path => {
+          check(path.node, path.node.id.name, 'enum');
+        },
+        TSEnumMember: path => {
+          const id: any = path.node.id;
+          check(path.node, id.type === 'Identifier' ? id.name : null, 'membro de enum');
+        }
       }
-    }
+    };
   }
 
-  private checkFunctionName(file: ParsedFile, node: any, name: string, issues: Issue[]): void {
-    const problems = this.analyzeIdentifier(name, 'função');
-    problems.forEach(problem => {
-      issues.push(this.createNamingIssue(file, node, name, problem, 'função'));
-    });
-  }
-
-  private checkVariableName(file: ParsedFile, node: any, name: string, issues: Issue[]): void {
-    const isConstant = this.isConstantVariable(node);
-    const type = isConstant ? 'constante' : 'variável';
-    
-    const problems = this.analyzeIdentifier(name, type);
-    problems.forEach(problem => {
-      issues.push(this.createNamingIssue(file, node, name, problem, type));
-    });
-  }
-
-  private checkClassName(file: ParsedFile, node: any, name: string, issues: Issue[]): void {
-    const problems = this.analyzeIdentifier(name, 'classe');
-    problems.forEach(problem => {
-      issues.push(this.createNamingIssue(file, node, name, problem, 'classe'));
-    });
-  }
-
-  private checkMethodName(file: ParsedFile, node: any, name: string, issues: Issue[]): void {
-    if (name === 'constructor') return;
-    
-    const problems = this.analyzeIdentifier(name, 'método');
-    problems.forEach(problem => {
-      issues.push(this.createNamingIssue(file, node, name, problem, 'método'));
-    });
-  }
-
-  private checkPropertyName(file: ParsedFile, node: any, name: string, issues: Issue[]): void {
-    const problems = this.analyzeIdentifier(name, 'propriedade');
-    problems.forEach(problem => {
-      issues.push(this.createNamingIssue(file, node, name, problem, 'propriedade'));
-    });
+  /** Nome da chave de métodos e propriedades; chaves computadas e literais ficam de fora. */
+  private getKeyName(node: any): string | null {
+    if (node.computed) return null;
+    if (node.key?.type === 'Identifier') return node.key.name;
+    if (node.key?.type === 'PrivateName') return node.key.id.name;
+    return null;
   }
 
   private analyzeIdentifier(name: string, type: string): string[] {
@@ -147,13 +135,16 @@ export class NamingDetector extends BaseDetector {
       problems.push('constantes devem usar UPPER_SNAKE_CASE');
     }
 
-    if (type === 'classe' && !this.isPascalCase(name)) {
-      problems.push('classes devem usar PascalCase');
+    if (['classe', 'interface', 'tipo', 'enum'].includes(type) && !this.isPascalCase(name)) {
+      problems.push(`${this.plurals[type]} devem usar PascalCase`);
     }
 
-    if (['função', 'método', 'variável', 'propriedade'].includes(type) && 
-        type !== 'constante' && !this.isCamelCase(name)) {
-      problems.push(`${type}s devem usar camelCase`);
+    if (type === 'membro de enum' && !this.isPascalCase(name) && !this.isUpperSnakeCase(name)) {
+      problems.push('membros de enum devem usar PascalCase ou UPPER_SNAKE_CASE');
+    }
+
+    if (['função', 'método', 'variável', 'propriedade'].includes(type) && !this.isCamelCase(name)) {
+      problems.push(`${this.plurals[type]} devem usar camelCase`);
     }
 
     // Verificações de significado
@@ -176,10 +167,13 @@ export class NamingDetector extends BaseDetector {
     return problems;
   }
 
-  private isConstantVariable(node: any): boolean {
-    return node.parent?.kind === 'const' && 
-           node.id?.name && 
-           node.id.name === node.id.name.toUpperCase();
+  private isConstantVariable(path: NodePath, name: string): boolean {
+    return (path.parent as any).kind === 'const' && name === name.toUpperCase();
+  }
+
+  /** Campos `static readonly` em maiúsculas seguem a convenção de constantes. */
+  private isConstantField(node: any, name: string): boolean {
+    return node.static && node.readonly && name === name.toUpperCase();
   }
 
   private isCamelCase(name: string): boolean {
@@ -204,17 +198,20 @@ export class NamingDetector extends BaseDetector {
 
   private createNamingIssue(file: ParsedFile, node: any, name: string, problem: string, type: string): Issue {
     const severity = this.getSeverityByProblem(problem);
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, 'convencao-nomenclatura', location);
     
     return IssueBuilder.create()
-      .withId(this.generateIssueId())
+      .withId(this.generateIssueId(fingerprint, location))
       .withCategory(IssueCategory.NAMING)
       .withSeverity(severity)
       .withTitle(`Nomenclatura inadequada de ${type}: "${name}"`)
       .withDescription(`${type.charAt(0).toUpperCase() + type.slice(1)} "${name}" ${problem}.`)
       .withSuggestion(this.getSuggestionByProblem(problem, type))
-      .withLocation(this.createLocation(file, node))
-      .withCodeSnippet(this.extractCodeSnippet(file, this.createLocation(file, node)))
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
       .withRule('convencao-nomenclatura')
+      .withFingerprint(fingerprint)
       .build();
   }
 
@@ -0,0 +1,408 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface ReactConfig {
+  enabled: boolean;
+  thresholds: {
+    jsxLines: number;
+    props: number;
+  };
+  rules: {
+    conditionalHook: boolean;
+    nestedHook: boolean;
+    hookOutsideComponent: boolean;
+    effectWithoutDeps: boolean;
+    largeComponent: boolean;
+    tooManyProps: boolean;
+    inlineListProps: boolean;
+    missingKey: boolean;
+  };
+}
+
+type ReactRule = keyof ReactConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+/** Componente: nome em PascalCase ou função passada a memo/forwardRef. Hook: nome use*. */
+type FunctionKind = 'component' | 'hook' | null;
+
+interface ComponentInfo {
+  path: NodePath;
+  name: string;
+  jsxLines: Set<number>;
+}
+
+const COMPONENT_NAME = /^[A-Z]/;
+const HOOK_NAME = /^use[A-Z0-9]/;
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef']);
+const EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect', 'useInsertionEffect']);
+const LIST_METHODS = new Set(['map', 'flatMap']);
+const LOOP_TYPES = new Set(['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement']);
+const JSX_TYPES = new Set(['JSXElement', 'JSXFragment']);
+
+export class ReactDetector extends VisitorDetector {
+  protected readonly analysisName = 'React';
+
+  private defaultConfig: ReactConfig = {
+    enabled: true,
+    thresholds: {
+      jsxLines: 100,
+      props: 8
+    },
+    rules: {
+      conditionalHook: true,
+      nestedHook: true,
+      hookOutsideComponent: true,
+      effectWithoutDeps: true,
+      largeComponent: true,
+      tooManyProps: true,
+      inlineListProps: true,
+      missingKey: true
+    }
+  };
+
+  static readonly RULES: Record<ReactRule, RuleDefinition> = {
+    conditionalHook: {
+      id: 'hook-condicional',
+      severity: IssueSeverity.HIGH,
+      title: 'Hook chamado dentro de condição ou laço',
+      suggestion: 'Chame os hooks sempre no topo do componente, na mesma ordem a cada renderização. Mova a condição ou o laço para dentro do hook (por exemplo, dentro do efeito).'
+    },
+    nestedHook: {
+      id: 'hook-em-funcao-aninhada',
+      severity: IssueSeverity.HIGH,
+      title: 'Hook chamado dentro de função aninhada',
+      suggestion: 'Chame o hook diretamente no corpo do componente ou do hook e use o valor dentro do callback. O React identifica cada hook pela ordem das chamadas durante a renderização.'
+    },
+    hookOutsideComponent: {
+      id: 'hook-fora-de-componente',
+      severity: IssueSeverity.HIGH,
+      title: 'Hook chamado fora de componente ou hook',
+      suggestion: 'Hooks só podem ser chamados em componentes (nome em PascalCase) ou em hooks personalizados (nome começando com use). Renomeie a função ou mova a chamada.'
+    },
+    effectWithoutDeps: {
+      id: 'effect-sem-dependencias',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Efeito sem lista de dependências',
+      suggestion: 'Passe a lista de dependências como segundo argumento: [] para rodar só na montagem, ou os valores usados dentro do efeito. Sem ela o efeito roda depois de toda renderização.'
+    },
+    largeComponent: {
+      id: 'componente-grande',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Componente com JSX muito longo',
+      suggestion: 'Extraia partes da marcação para componentes menores, cada um com uma responsabilidade. Componentes menores são mais fáceis de ler, testar e memorizar.'
+    },
+    tooManyProps: {
+      id: 'componente-muitas-props',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Componente com props demais',
+      suggestion: 'Agrupe props relacionadas em um objeto, use composição (children ou slots) ou divida o componente. Muitas props costumam indicar que o componente faz coisas demais.'
+    },
+    inlineListProps: {
+      id: 'prop-inline-em-lista',
+      severity: IssueSeverity.LOW,
+      title: 'Objeto ou array criado inline em item de lista',
+      suggestion: 'Crie o valor fora do map (ou com useMemo) para manter a mesma referência entre renderizações. Um literal novo a cada item faz componentes memorizados renderizarem de novo.'
+    },
+    missingKey: {
+      id: 'lista-sem-key',
+      severity: IssueSeverity.HIGH,
+      title: 'Item de lista sem key',
+      suggestion: 'Passe uma key estável e única entre os irmãos, como o id do item. Sem key (ou com o índice) o React pode reaproveitar o estado do item errado quando a lista muda.'
+    }
+  };
+
+  constructor(config?: Partial<ReactConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.thresholds = { ...this.defaultConfig.thresholds, ...config?.thresholds };
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    const kinds = new Map<any, FunctionKind>();
+    const components = new Map<any, ComponentInfo>();
+    const propTypes = new Map<string, number>();
+
+    const kindOf = (path: NodePath): FunctionKind => {
+      if (!kinds.has(path.node)) kinds.set(path.node, this.classify(path));
+      return kinds.get(path.node)!;
+    };
+
+    return {
+      visitor: {
+        CallExpression: path => {
+          const hook = this.getHookName(path.node.callee);
+          if (!hook) return;
+
+          this.checkHookCall(file, path, hook, kindOf, issues);
+
+          const args = path.node.arguments;
+          if (EFFECT_HOOKS.has(hook) && args.length === 1 && args[0].type !== 'SpreadElement' && this.isRuleEnabled('effectWithoutDeps')) {
+            issues.push(this.createIssue(file, path.node, 'effectWithoutDeps', `${hook} sem lista de dependências roda depois de toda renderização.`));
+          }
+        },
+        'JSXElement|JSXFragment': path => {
+          this.checkListItem(file, path, issues);
+
+          if (JSX_TYPES.has(path.parent.type)) return;
+          const owner = path.findParent(parent => parent.isFunction() && kindOf(parent) === 'component');
+          if (!owner) return;
+
+          if (!components.has(owner.node)) {
+            components.set(owner.node, { path: owner, name: this.getFunctionName(owner) ?? 'default', jsxLines: new Set() });
+          }
+          const { start, end } = path.node.loc!;
+          const lines = components.get(owner.node)!.jsxLines;
+          for (let line = start.line; line <= end.line; line++) lines.add(line);
+        },
+        JSXAttribute: path => {
+          const value: any = path.node.value;
+          const literal = value?.type === 'JSXExpressionContainer' ? value.expression : null;
+          if (literal?.type !== 'ObjectExpression' && literal?.type !== 'ArrayExpression') return;
+
+          const opening: any = path.parent;
+          const elementName = this.getElementName(opening.name);
+          const propName = this.getAttributeName(path.node.name);
+          // Em elementos do DOM a referência nova não causa renderização extra
+          if (propName === 'key' || !this.isComponentElement(opening.name)) return;
+
+          const callback = path.getFunctionParent();
+          if (callback && this.isListCallback(callback) && this.isRuleEnabled('inlineListProps')) {
+            const kind = literal.type === 'ObjectExpression' ? 'um objeto novo' : 'um array novo';
+            issues.push(this.createIssue(file, path.node, 'inlineListProps', `A prop "${propName}" de <${elementName}> recebe ${kind} a cada item da lista.`));
+          }
+        },
+        'TSInterfaceDeclaration|TSTypeAliasDeclaration': path => {
+          const node: any = path.node;
+          const members = node.type === 'TSInterfaceDeclaration' ? node.body.body : node.typeAnnotation.members;
+          if (members) propTypes.set(node.id.name, members.length);
+        }
+      },
+      finish: () => {
+        components.forEach(component => this.checkComponent(file, component, propTypes, issues));
+        issues.sort((a, b) => a.location.line - b.location.line || a.location.column - b.location.column);
+      }
+    };
+  }
+
+  private checkHookCall(file: ParsedFile, path: NodePath, hook: string, kindOf: (path: NodePath) => FunctionKind, issues: Issue[]): void {
+    const fn = path.getFunctionParent();
+
+    if (fn && kindOf(fn)) {
+      const condition = this.findCondition(path, fn.node);
+      if (condition && this.isRuleEnabled('conditionalHook')) {
+        issues.push(this.createIssue(file, path.node, 'conditionalHook', `O hook ${hook} é chamado dentro de ${condition} em "${this.getFunctionName(fn) ?? 'default'}".`));
+      }
+      return;
+    }
+
+    const owner = fn?.findParent(parent => parent.isFunction() && kindOf(parent) !== null);
+    if (owner) {
+      if (this.isRuleEnabled('nestedHook')) {
+        issues.push(this.createIssue(file, path.node, 'nestedHook', `O hook ${hook} é chamado dentro de uma função aninhada em "${this.getFunctionName(owner) ?? 'default'}".`));
+      }
+      return;
+    }
+
+    // Callback anônimo fora de componente (renderHook, decorators de stories): quem chama é desconhecido
+    if (fn && !this.getFunctionName(fn) && fn.parent.type === 'CallExpression') return;
+
+    if (this.isRuleEnabled('hookOutsideComponent')) {
+      const where = fn ? `em "${this.getFunctionName(fn) ?? 'função anônima'}", que não é componente nem hook` : 'no nível do módulo';
+      issues.push(this.createIssue(file, path.node, 'hookOutsideComponent', `O hook ${hook} é chamado ${where}.`));
+    }
+  }
+
+  /** Primeira condição ou laço entre a chamada e a função que a contém. */
+  private findCondition(path: NodePath, fnNode: any): string | null {
+    let child: NodePath = path;
+    let parent = path.parentPath;
+
+    while (parent && parent.node !== fnNode) {
+      const node: any = parent.node;
+
+      if ((node.type === 'IfStatement' || node.type === 'ConditionalExpression') && node.test !== child.node) return 'uma condição';
+      if (node.type === 'LogicalExpression' && node.right === child.node) return `uma expressão com ${node.operator}`;
+      if (node.type === 'SwitchCase' && node.test !== child.node) return 'um case de switch';
+      if (LOOP_TYPES.has(node.type) && node.init !== child.node && node.right !== child.node) return 'um laço';
+
+      child = parent;
+      parent = parent.parentPath;
+    }
+
+    return null;
+  }
+
+  private checkListItem(file: ParsedFile, path: NodePath, issues: Issue[]): void {
+    if (!this.isRuleEnabled('missingKey') || !this.isListItem(path)) return;
+
+    const node: any = path.node;
+    if (node.type === 'JSXFragment') {
+      issues.push(this.createIssue(file, node, 'missingKey', 'Fragmento curto (<>) usado como item de lista não aceita key; use <Fragment key={...}>.'));
+      return;
+    }
+
+    const attributes = node.openingElement.attributes;
+    // Com spread a key pode vir de dentro do objeto
+    if (attributes.some((attribute: any) => attribute.type === 'JSXSpreadAttribute' || attribute.name?.name === 'key')) return;
+
+    issues.push(this.createIssue(file, node, 'missingKey', `<${this.getElementName(node.openingElement.name)}> é renderizado em uma lista sem key.`));
+  }
+
+  /** JSX devolvido por um callback de map/flatMap ou escrito como elemento de um array. */
+  private isListItem(path: NodePath): boolean {
+    let current: NodePath = path;
+    let parent = path.parentPath;
+
+    while (parent && (parent.isConditionalExpression() || parent.isLogicalExpression()) && (parent.node as any).test !== current.node) {
+      current = parent;
+      parent = parent.parentPath;
+    }
+    if (!parent) return false;
+
+    if (parent.isArrayExpression()) return true;
+    if (parent.isArrowFunctionExpression() && parent.node.body === current.node) return this.isListCallback(parent);
+    if (parent.isReturnStatement()) {
+      const fn = parent.getFunctionParent();
+      return Boolean(fn && this.isListCallback(fn));
+    }
+
+    return false;
+  }
+
+  private isListCallback(fn: NodePath): boolean {
+    const call: any = fn.parent;
+    if (call.type !== 'CallExpression' && call.type !== 'OptionalCallExpression') return false;
+
+    const callee = call.callee;
+    const isMember = callee.type === 'MemberExpression' || callee.type === 'OptionalMemberExpression';
+    if (!isMember || callee.computed) return false;
+
+    if (LIST_METHODS.has(callee.property.name)) return call.arguments[0] === fn.node;
+    // Array.from(itens, item => <Item />)
+    return callee.property.name === 'from' && callee.object.type === 'Identifier' && callee.object.name === 'Array' && call.arguments[1] === fn.node;
+  }
+
+  private checkComponent(file: ParsedFile, component: ComponentInfo, propTypes: Map<string, number>, issues: Issue[]): void {
+    const node: any = component.path.node;
+
+    const jsxLines = component.jsxLines.size;
+    const jsxLimit = this.getThreshold('jsxLines', this.defaultConfig.thresholds.jsxLines);
+    if (jsxLines > jsxLimit && this.isRuleEnabled('largeComponent')) {
+      issues.push(this.createIssue(file, node, 'largeComponent', `O componente "${component.name}" tem ${jsxLines} linhas de JSX (limite ${jsxLimit}).`));
+    }
+
+    const props = this.countProps(node.params[0], propTypes);
+    const propsLimit = this.getThreshold('props', this.defaultConfig.thresholds.props);
+    if (props > propsLimit && this.isRuleEnabled('tooManyProps')) {
+      issues.push(this.createIssue(file, node, 'tooManyProps', `O componente "${component.name}" recebe ${props} props (limite ${propsLimit}).`));
+    }
+  }
+
+  /**
+   * Props desestruturadas no parâmetro ou, quando o parâmetro é tipado, membros
+   * do tipo literal ou da interface/type declarada no mesmo arquivo.
+   */
+  private countProps(param: any, propTypes: Map<string, number>): number {
+    if (!param) return 0;
+    if (param.type === 'AssignmentPattern') return this.countProps(param.left, propTypes);
+    if (param.type === 'ObjectPattern') {
+      return param.properties.filter((property: any) => property.type !== 'RestElement').length;
+    }
+
+    const type = param.typeAnnotation?.typeAnnotation;
+    if (type?.type === 'TSTypeLiteral') return type.members.length;
+    if (type?.type === 'TSTypeReference' && type.typeName.type === 'Identifier') return propTypes.get(type.typeName.name) ?? 0;
+
+    return 0;
+  }
+
+  private classify(path: NodePath): FunctionKind {
+    if (this.getWrapperTarget(path) !== path) return 'component';
+
+    const name = this.getFunctionName(path);
+    if (!name) return path.parent.type === 'ExportDefaultDeclaration' ? 'component' : null;
+    if (HOOK_NAME.test(name)) return 'hook';
+    if (COMPONENT_NAME.test(name)) return 'component';
+    return null;
+  }
+
+  /** Sobe por memo(forwardRef(...)) até a expressão que recebe o nome. */
+  private getWrapperTarget(path: NodePath): NodePath {
+    let target = path;
+    while (target.parentPath?.isCallExpression() && this.isComponentWrapper(target.parentPath.node) && target.parentPath.node.arguments[0] === target.node) {
+      target = target.parentPath;
+    }
+    return target;
+  }
+
+  private isComponentWrapper(call: any): boolean {
+    const callee = call.callee;
+    if (callee.type === 'Identifier') return COMPONENT_WRAPPERS.has(callee.name);
+    return callee.type === 'MemberExpression' && !callee.computed && COMPONENT_WRAPPERS.has(callee.property.name);
+  }
+
+  private getFunctionName(path: NodePath): string | null {
+    const node: any = path.node;
+    if (node.id?.name) return node.id.name;
+    if (node.key?.type === 'Identifier') return node.key.name;
+
+    const parent: any = this.getWrapperTarget(path).parent;
+    if (parent.type === 'VariableDeclarator' && parent.id.type === 'Identifier') return parent.id.name;
+    if (parent.type === 'AssignmentExpression') {
+      if (parent.left.type === 'Identifier') return parent.left.name;
+      if (parent.left.type === 'MemberExpression' && !parent.left.computed) return parent.left.property.name;
+    }
+    if ((parent.type === 'ObjectProperty' || parent.type === 'ClassProperty') && parent.key.type === 'Identifier') return parent.key.name;
+
+    return null;
+  }
+
+  /** useX() ou Namespace.useX(), como React.useState(). */
+  private getHookName(callee: any): string | null {
+    if (callee.type === 'Identifier') return HOOK_NAME.test(callee.name) ? callee.name : null;
+
+    if (callee.type === 'MemberExpression' && !callee.computed && callee.object.type === 'Identifier' &&
+        COMPONENT_NAME.test(callee.object.name) && HOOK_NAME.test(callee.property.name)) {
+      return callee.property.name;
+    }
+
+    return null;
+  }
+
+  private isComponentElement(name: any): boolean {
+    return name.type === 'JSXMemberExpression' || (name.type === 'JSXIdentifier' && COMPONENT_NAME.test(name.name));
+  }
+
+  private getAttributeName(name: any): string {
+    return name.type === 'JSXNamespacedName' ? `${name.namespace.name}:${name.name.name}` : name.name;
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: ReactRule, description: string): Issue {
+    const definition = ReactDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.BEST_PRACTICES)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: location.line }))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
@@ -0,0 +1,415 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+import { FileUtils } from '../../utils/file-utils';
+import { createLogger } from '../../utils/logger';
+
+interface SecretsConfig {
+  enabled: boolean;
+  thresholds: {
+    minLength: number;
+    entropy: number;
+  };
+  rules: {
+    privateKey: boolean;
+    awsKey: boolean;
+    jwt: boolean;
+    serviceToken: boolean;
+    passwordAssignment: boolean;
+    highEntropy: boolean;
+  };
+  allowlist: {
+    paths: string[];
+    patterns: string[];
+  };
+}
+
+type SecretRule = keyof SecretsConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+interface SecretMatch {
+  rule: SecretRule;
+  value: string;
+  description: string;
+}
+
+/** Formatos conhecidos, testados antes da entropia. */
+const PRIVATE_KEY = /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/;
+const AWS_ACCESS_KEY = /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/;
+const JWT = /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/;
+const SERVICE_TOKENS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'GitHub', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { name: 'Slack', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+  { name: 'Stripe', pattern: /\b[sr]k_live_[A-Za-z0-9]{20,}\b/ },
+  { name: 'Google', pattern: /\bAIza[A-Za-z0-9_-]{35}\b/ }
+];
+
+/** Nomes de variável, propriedade ou parâmetro que guardam credenciais. */
+const CREDENTIAL_NAME = /(?:password|passwd|pwd|senha|secret|segredo|api_?key|access_?token|auth_?token|client_?secret)$/i;
+
+const TOKEN_CHARS = /^[A-Za-z0-9+/=_-]+$/;
+const HEX_TOKEN = /^[0-9a-fA-F]+$/;
+const HEX_MIN_LENGTH = 32;
+const HEX_ENTROPY = 3;
+
+const HEURISTIC_NOTE = 'Achado heurístico: o valor foi apontado pela aleatoriedade dos caracteres.';
+
+/** Mantém só os 4 primeiros caracteres, o suficiente para reconhecer o segredo sem expô-lo. */
+function maskSecret(secret: string): string {
+  const visible = secret.length > 8 ? secret.slice(0, 4) : '';
+  return `${visible}${'*'.repeat(8)}`;
+}
+
+export class SecretsDetector extends VisitorDetector {
+  protected readonly analysisName = 'segredos';
+
+  private defaultConfig: SecretsConfig = {
+    enabled: true,
+    thresholds: {
+      minLength: 20,
+      entropy: 4
+    },
+    rules: {
+      privateKey: true,
+      awsKey: true,
+      jwt: true,
+      serviceToken: true,
+      passwordAssignment: true,
+      highEntropy: true
+    },
+    allowlist: {
+      paths: [],
+      patterns: []
+    }
+  };
+
+  private allowedPaths: string[];
+  private allowedPatterns: RegExp[];
+  private secretsLogger = createLogger('SecretsDetector');
+
+  static readonly RULES: Record<SecretRule, RuleDefinition> = {
+    privateKey: {
+      id: 'chave-privada',
+      severity: IssueSeverity.CRITICAL,
+      title: 'Chave privada no código',
+      suggestion: 'Remova a chave do repositório, gere um novo par e carregue-a de um arquivo fora do controle de versão ou de um cofre de segredos.'
+    },
+    awsKey: {
+      id: 'chave-aws',
+      severity: IssueSeverity.CRITICAL,
+      title: 'Chave de acesso AWS no código',
+      suggestion: 'Desative a chave no IAM, gere outra e use variáveis de ambiente, perfis do AWS CLI ou roles em vez de chaves no código.'
+    },
+    jwt: {
+      id: 'token-jwt',
+      severity: IssueSeverity.HIGH,
+      title: 'Token JWT no código',
+      suggestion: 'Não guarde tokens no código. Se ele ainda for válido, revogue-o ou troque a chave de assinatura.'
+    },
+    serviceToken: {
+      id: 'token-de-servico',
+      severity: IssueSeverity.CRITICAL,
+      title: 'Token de serviço no código',
+      suggestion: 'Revogue o token no serviço, gere outro e leia-o de uma variável de ambiente ou de um cofre de segredos.'
+    },
+    passwordAssignment: {
+      id: 'senha-no-codigo',
+      severity: IssueSeverity.HIGH,
+      title: 'Senha ou segredo atribuído no código',
+      suggestion: 'Leia o valor de uma variável de ambiente (process.env) ou de um cofre de segredos, e troque a senha se ela já foi commitada.'
+    },
+    highEntropy: {
+      id: 'segredo-alta-entropia',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Possível segredo no código',
+      suggestion: 'Se o valor for uma chave ou token, mova-o para uma variável de ambiente e troque-o. Se não for, adicione um padrão em allowlist.patterns.'
+    }
+  };
+
+  constructor(config?: Partial<SecretsConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.thresholds = { ...this.defaultConfig.thresholds, ...config?.thresholds };
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+    this.allowedPaths = config?.allowlist?.paths ?? this.defaultConfig.allowlist.paths;
+    this.allowedPatterns = (config?.allowlist?.patterns ?? this.defaultConfig.allowlist.patterns).map(pattern => new RegExp(pattern));
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    if (this.allowedPaths.some(pattern => FileUtils.matchesGlob(file.path, pattern))) {
+      this.secretsLogger.debug('Arquivo na allowlist de segredos', { file: file.path });
+      return null;
+    }
+
+    return {
+      visitor: {
+        'StringLiteral|TemplateLiteral': path => {
+          const node: any = path.node;
+          if (this.isNonValuePosition(path)) return;
+
+          const value = node.type === 'StringLiteral'
+            ? node.value
+            : node.quasis.map((quasi: any) => quasi.value.cooked ?? quasi.value.raw).join(' ');
+
+          const match = this.findSecret(value, this.getAssignedName(path));
+          if (match && !this.allowedPatterns.some(pattern => pattern.test(match.value))) {
+            issues.push(this.createIssue(file, node, match));
+          }
+        }
+      }
+    };
+  }
+
+  private findSecret(value: string, assignedName: string | null): SecretMatch | null {
+    const privateKey = value.match(PRIVATE_KEY);
+    if (privateKey && this.isRuleEnabled('privateKey')) {
+      return { rule: 'privateKey', value, description: `Chave privada em formato PEM (${privateKey[0].replace(/-/g, '')}).` };
+    }
+
+    const awsKey = value.match(AWS_ACCESS_KEY);
+    if (awsKey && this.isRuleEnabled('awsKey')) {
+      return { rule: 'awsKey', value: awsKey[0], description: 'String no formato de access key ID da AWS.' };
+    }
+
+    const jwt = value.match(JWT);
+    if (jwt && this.isRuleEnabled('jwt')) {
+      return { rule: 'jwt', value: jwt[0], description: 'String no formato de um JWT (cabeçalho, payload e assinatura).' };
+    }
+
+    if (this.isRuleEnabled('serviceToken')) {
+      for (const service of SERVICE_TOKENS) {
+        const token = value.match(service.pattern);
+        if (token) {
+          return { rule: 'serviceToken', value: token[0], description: `String no formato de token do ${service.name}.` };
+        }
+      }
+    }
+
+    if (assignedName && this.isRuleEnabled('passwordAssignment') && this.looksLikeCredential(value, assignedName)) {
+      return { rule: 'passwordAssignment', value, description: `"${assignedName}" recebe um valor fixo no código.` };
+    }
+
+    if (this.isRuleEnabled('highEntropy')) {
+      const token = this.findHighEntropyToken(value);
+      if (token) {
+        return {
+          rule: 'highEntropy',
+          value: token.value,
+          description: `String de ${token.value.length} caracteres com entropia ${token.entropy.toFixed(2)} bits por caractere. ${HEURISTIC_NOTE}`
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Valor de senha plausível: sem espaços (mensagens como "Senha inválida"
+   * ficam de fora), com pelo menos 4 caracteres e que não repete o nome
+   * do campo (placeholder = 'password').
+   */
+  private looksLikeCredential(value: string, name: string): boolean {
+    if (!CREDENTIAL_NAME.test(name)) return false;
+    if (value.length < 4 || /\s/.test(value)) return false;
+
+    const normalized = value.toLowerCase().replace(/[^a-z]/g, '');
+    return !/^(password|passwd|senha|secret|segredo|changeme|xxx+|\*+)$/.test(normalized) &&
+           !name.toLowerCase().includes(normalized || '*');
+  }
+
+  /**
+   * Pedaços sem espaço com aparência de chave: base64/base62 misturando
+   * maiúsculas, minúsculas e dígitos acima do limite de entropia, ou hex
+   * longo. Hashes de integridade (sha512-...) são ignorados.
+   */
+  private findHighEntropyToken(value: string): { value: string; entropy: number } | null {
+    const minLength = this.getThreshold('minLength', this.defaultConfig.thresholds.minLength);
+    const minEntropy = this.getThreshold('entropy', this.defaultConfig.thresholds.entropy);
+
+    for (const token of value.split(/[\s"'`:=,;()[\]{}<>]+/)) {
+      if (token.length < minLength || !TOKEN_CHARS.test(token) || /^sha\d+-/.test(token)) continue;
+
+      const entropy = this.shannonEntropy(token);
+
+      if (HEX_TOKEN.test(token)) {
+        if (token.length >= HEX_MIN_LENGTH && entropy >= HEX_ENTROPY && /\d/.test(token) && /[a-f]/i.test(token)) {
+          return { value: token, entropy };
+        }
+        continue;
+      }
+
+      const mixed = /[a-z]/.test(token) && /[A-Z]/.test(token) && /\d/.test(token);
+      if (mixed && entropy >= minEntropy) return { value: token, entropy };
+    }
+
+    return null;
+  }
+
+  private shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+    let entropy = 0;
+    counts.forEach(count => {
+      const probability = count / value.length;
+      entropy -= probability * Math.log2(probability);
+    });
+    return entropy;
+  }
+
+  /** Strings que não são valores: módulos importados, chaves de objeto, tipos literais. */
+  private isNonValuePosition(path: NodePath): boolean {
+    const parent: any = path.parent;
+
+    switch (parent.type) {
+      case 'ImportDeclaration':
+      case 'ExportAllDeclaration':
+      case 'ExportNamedDeclaration':
+      case 'TSLiteralType':
+      case 'TSExternalModuleReference':
+      case 'TSImportType':
+        return true;
+      case 'ObjectProperty':
+      case 'ObjectMethod':
+      case 'ClassProperty':
+      case 'ClassMethod':
+        return parent.key === path.node && !parent.computed;
+      case 'CallExpression':
+        return parent.callee.type === 'Identifier' && parent.callee.name === 'require';
+      default:
+        return false;
+    }
+  }
+
+  /** Nome que recebe a string: variável, propriedade, atribuição ou parâmetro com padrão. */
+  private getAssignedName(path: NodePath): string | null {
+    const parent: any = path.parent;
+    const node = path.node;
+
+    switch (parent.type) {
+      case 'VariableDeclarator':
+        return parent.init === node ? this.getTargetName(parent.id) : null;
+      case 'AssignmentExpression':
+        return parent.right === node ? this.getTargetName(parent.left) : null;
+      case 'AssignmentPattern':
+        return parent.right === node ? this.getTargetName(parent.left) : null;
+      case 'ObjectProperty':
+      case 'ClassProperty':
+        return parent.value === node ? this.getTargetName(parent.key) : null;
+      default:
+        return null;
+    }
+  }
+
+  private getTargetName(node: any): string | null {
+    switch (node?.type) {
+      case 'Identifier': return node.name;
+      case 'StringLiteral': return node.value;
+      case 'MemberExpression': return node.computed ? this.getTargetName(node.property) : node.property.name;
+      default: return null;
+    }
+  }
+
+  /**
+   * Trecho gerado pelo extractCodeSnippet a partir de uma cópia do arquivo
+   * em que o literal foi mascarado linha a linha, para que o segredo não
+   * apareça em nenhum relatório.
+   */
+  private extractMaskedSnippet(file: ParsedFile, node: any, location: Issue['location']): string {
+    const raw = file.content.slice(node.start + 1, node.end - 1);
+    const masked = raw
+      .split('\n')
+      .map(line => line.trim() ? line.replace(/\S.*\S|\S/, maskSecret(line.trim())) : line)
+      .join('\n');
+
+    const content = file.content.slice(0, node.start + 1) + masked + file.content.slice(node.end - 1);
+    return this.extractCodeSnippet({ ...file, content }, { ...location, endLine: location.line });
+  }
+
+  private createIssue(file: ParsedFile, node: any, match: SecretMatch): Issue {
+    const definition = SecretsDetector.RULES[match.rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.SECURITY)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(`${match.description} Valor: ${maskSecret(match.value)}.`)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractMaskedSnippet(file, node, location))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
+
+/**
+ * Mascara, nos problemas de qualquer detector, os segredos que o
+ * SecretsDetector apontou no arquivo. Os literais são recuperados pela
+ * localização dos próprios problemas de segredo, então o valor não precisa
+ * ser guardado no cache.
+ */
+export class SecretMask {
+  private static readonly SECRET_RULES = new Set(Object.values(SecretsDetector.RULES).map(rule => rule.id));
+
+  private constructor(private segments: string[]) {}
+
+  static fromIssues(content: string, issues: Issue[]): SecretMask {
+    const secretIssues = issues.filter(issue => this.SECRET_RULES.has(issue.rule));
+    if (secretIssues.length === 0) return new SecretMask([]);
+
+    const lineOffsets = [0];
+    for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+      lineOffsets.push(index + 1);
+    }
+
+    const toOffset = (line: number, column: number) => (lineOffsets[line - 1] ?? content.length) + column;
+    const segments = new Set<string>();
+
+    secretIssues.forEach(({ location }) => {
+      if (location.endLine === undefined || location.endColumn === undefined) return;
+
+      // Sem as aspas ou crases do literal
+      const literal = content.slice(toOffset(location.line, location.column) + 1, toOffset(location.endLine, location.endColumn) - 1);
+      literal.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => segments.add(line));
+    });
+
+    // Mais longas primeiro, para que uma linha contida em outra não quebre a troca
+    return new SecretMask(Array.from(segments).sort((a, b) => b.length - a.length));
+  }
+
+  isEmpty(): boolean {
+    return this.segments.length === 0;
+  }
+
+  /** Indica se o texto contém algum dos segredos do arquivo. */
+  covers(text: string): boolean {
+    return this.segments.some(segment => text.includes(segment));
+  }
+
+  apply(issues: Issue[]): void {
+    if (this.isEmpty()) return;
+
+    issues.forEach(issue => {
+      issue.description = this.maskText(issue.description);
+      if (issue.codeSnippet) {
+        issue.codeSnippet = this.maskText(issue.codeSnippet);
+      }
+    });
+  }
+
+  private maskText(text: string): string {
+    return this.segments.reduce((masked, segment) => masked.split(segment).join(maskSecret(segment)), text);
+  }
+}
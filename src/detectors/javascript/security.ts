@@ -0,0 +1,315 @@
+import { NodePath } from '@babel/traverse';
+import { VISITOR_KEYS } from '@babel/types';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface SecurityConfig {
+  enabled: boolean;
+  rules: {
+    dynamicCode: boolean;
+    stringTimer: boolean;
+    domHtml: boolean;
+    reactHtml: boolean;
+    commandInjection: boolean;
+    fsUserInput: boolean;
+  };
+}
+
+type SecurityRule = keyof SecurityConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+const TIMERS = new Set(['setTimeout', 'setInterval']);
+const GLOBAL_OBJECTS = new Set(['window', 'globalThis', 'self']);
+const HTML_PROPERTIES = new Set(['innerHTML', 'outerHTML']);
+const DOCUMENT_WRITERS = new Set(['write', 'writeln']);
+const SHELL_FUNCTIONS = new Set(['exec', 'execSync']);
+const FS_MODULES = new Set(['fs', 'fs/promises', 'fs-extra']);
+
+/** Objetos de requisição (Express, Koa, Fastify) e as partes que vêm do cliente. */
+const REQUEST_OBJECTS = new Set(['req', 'request', 'ctx']);
+const REQUEST_INPUTS = new Set(['params', 'query', 'body', 'headers', 'cookies', 'files']);
+
+const HEURISTIC_NOTE = 'Achado heurístico: a origem do dado foi deduzida pelos nomes usados.';
+
+export class SecurityDetector extends VisitorDetector {
+  protected readonly analysisName = 'segurança';
+
+  private defaultConfig: SecurityConfig = {
+    enabled: true,
+    rules: {
+      dynamicCode: true,
+      stringTimer: true,
+      domHtml: true,
+      reactHtml: true,
+      commandInjection: true,
+      fsUserInput: true
+    }
+  };
+
+  static readonly RULES: Record<SecurityRule, RuleDefinition> = {
+    dynamicCode: {
+      id: 'sem-eval',
+      severity: IssueSeverity.HIGH,
+      title: 'Execução dinâmica de código',
+      suggestion: 'Evite eval e new Function. Substitua por funções explícitas, mapas de handlers ou JSON.parse para dados.'
+    },
+    stringTimer: {
+      id: 'timer-com-string',
+      severity: IssueSeverity.HIGH,
+      title: 'setTimeout/setInterval com string',
+      suggestion: 'Passe uma função em vez de uma string. Com string, o código é avaliado como em um eval.'
+    },
+    domHtml: {
+      id: 'html-inseguro',
+      severity: IssueSeverity.HIGH,
+      title: 'HTML montado dinamicamente no DOM',
+      suggestion: 'Use textContent, createElement ou uma biblioteca de templates que escapa o conteúdo. Se o HTML for mesmo necessário, sanitize-o antes (por exemplo com DOMPurify).'
+    },
+    reactHtml: {
+      id: 'dangerously-set-inner-html',
+      severity: IssueSeverity.HIGH,
+      title: 'Uso de dangerouslySetInnerHTML',
+      suggestion: 'Renderize o conteúdo como JSX. Se precisar injetar HTML, sanitize-o antes e documente de onde ele vem.'
+    },
+    commandInjection: {
+      id: 'comando-dinamico',
+      severity: IssueSeverity.CRITICAL,
+      title: 'Comando de shell montado com strings',
+      suggestion: 'Use execFile ou spawn com o comando e os argumentos separados em um array. exec passa a string inteira para o shell, que interpreta ; | $() e afins.'
+    },
+    fsUserInput: {
+      id: 'caminho-do-usuario',
+      severity: IssueSeverity.HIGH,
+      title: 'Acesso a arquivo com caminho vindo do usuário',
+      suggestion: 'Resolva o caminho, confirme que ele continua dentro do diretório permitido (path.resolve + startsWith) e rejeite nomes com "..". Se possível, use uma lista de arquivos permitidos.'
+    }
+  };
+
+  constructor(config?: Partial<SecurityConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    return {
+      visitor: {
+        CallExpression: path => {
+          const node: any = path.node;
+          const callee = node.callee;
+
+          if (this.isRuleEnabled('dynamicCode') && (this.isGlobalReference(path, callee, 'eval') || this.isGlobalReference(path, callee, 'Function'))) {
+            issues.push(this.createIssue(file, node, 'dynamicCode', `Uso de ${callee.name}() executa código a partir de strings.`));
+          }
+
+          if (this.isRuleEnabled('stringTimer') && this.isTimer(path, callee) && this.isStringLike(node.arguments[0])) {
+            issues.push(this.createIssue(file, node, 'stringTimer', `${this.getFunctionName(callee)}() recebe uma string, que é avaliada como código.`));
+          }
+
+          if (this.isRuleEnabled('domHtml')) {
+            this.checkHtmlCall(file, path, issues);
+          }
+
+          if (this.isRuleEnabled('commandInjection') && this.isShellCall(path, callee) && this.isDynamicString(node.arguments[0])) {
+            issues.push(this.createIssue(file, node, 'commandInjection',
+              `O comando passado para ${this.getFunctionName(callee)}() é montado com ${node.arguments[0].type === 'TemplateLiteral' ? 'template string' : 'concatenação'}; qualquer valor interpolado chega ao shell.`));
+          }
+
+          if (this.isRuleEnabled('fsUserInput') && this.isFsCall(path, callee)) {
+            const input = this.findUserInput(node.arguments[0], file);
+            if (input) {
+              issues.push(this.createIssue(file, node, 'fsUserInput',
+                `${this.getFunctionName(callee)}() recebe um caminho montado com "${input}". ${HEURISTIC_NOTE}`));
+            }
+          }
+        },
+        NewExpression: path => {
+          if (this.isRuleEnabled('dynamicCode') && this.isGlobalReference(path, path.node.callee, 'Function')) {
+            issues.push(this.createIssue(file, path.node, 'dynamicCode', 'Uso de new Function() executa código a partir de strings.'));
+          }
+        },
+        AssignmentExpression: path => {
+          const node: any = path.node;
+          const left = node.left;
+          if (!this.isRuleEnabled('domHtml') || !this.isMember(left) || left.computed) return;
+
+          const property = left.property.name;
+          if (HTML_PROPERTIES.has(property) && !this.isStaticString(node.right)) {
+            issues.push(this.createIssue(file, node, 'domHtml', `Atribuição a ${property} com conteúdo dinâmico; o navegador interpreta o valor como HTML.`));
+          }
+        },
+        JSXAttribute: path => {
+          const name: any = path.node.name;
+          if (this.isRuleEnabled('reactHtml') && name.type === 'JSXIdentifier' && name.name === 'dangerouslySetInnerHTML') {
+            issues.push(this.createIssue(file, path.node, 'reactHtml', 'O componente injeta HTML cru com dangerouslySetInnerHTML.'));
+          }
+        }
+      }
+    };
+  }
+
+  /** document.write(...) e elemento.insertAdjacentHTML(posição, html). */
+  private checkHtmlCall(file: ParsedFile, path: NodePath, issues: Issue[]): void {
+    const node: any = path.node;
+    const callee = node.callee;
+    if (!this.isMember(callee) || callee.computed) return;
+
+    const method = callee.property.name;
+
+    if (DOCUMENT_WRITERS.has(method) && this.isGlobalReference(path, callee.object, 'document')) {
+      issues.push(this.createIssue(file, node, 'domHtml', `document.${method}() escreve HTML direto no documento.`));
+      return;
+    }
+
+    if (method === 'insertAdjacentHTML' && !this.isStaticString(node.arguments[1])) {
+      issues.push(this.createIssue(file, node, 'domHtml', 'insertAdjacentHTML() com conteúdo dinâmico; o navegador interpreta o valor como HTML.'));
+    }
+  }
+
+  private isTimer(path: NodePath, callee: any): boolean {
+    if (callee.type === 'Identifier') {
+      return TIMERS.has(callee.name) && this.isGlobalReference(path, callee, callee.name);
+    }
+    return this.isMember(callee) && !callee.computed && TIMERS.has(callee.property.name) &&
+           callee.object.type === 'Identifier' && GLOBAL_OBJECTS.has(callee.object.name);
+  }
+
+  /** exec/execSync de child_process, importados por nome ou acessados pelo módulo. */
+  private isShellCall(path: NodePath, callee: any): boolean {
+    if (callee.type === 'Identifier') {
+      return SHELL_FUNCTIONS.has(callee.name) && this.getModuleOf(path, callee.name) === 'child_process';
+    }
+    if (!this.isMember(callee) || callee.computed || !SHELL_FUNCTIONS.has(callee.property.name)) return false;
+
+    const object = callee.object;
+    if (object.type !== 'Identifier') return false;
+    // Sem escopo (arquivo com erro de sintaxe), só o nome do módulo serve de pista
+    return path.scope ? this.getModuleOf(path, object.name) === 'child_process' : object.name === 'child_process';
+  }
+
+  /** Qualquer método de fs, fs/promises ou fs-extra, inclusive via fs.promises. */
+  private isFsCall(path: NodePath, callee: any): boolean {
+    if (callee.type === 'Identifier') {
+      return FS_MODULES.has(this.getModuleOf(path, callee.name) ?? '');
+    }
+    if (!this.isMember(callee)) return false;
+
+    let object = callee.object;
+    if (this.isMember(object) && !object.computed && object.property.name === 'promises') {
+      object = object.object;
+    }
+    if (object.type !== 'Identifier') return false;
+
+    return path.scope ? FS_MODULES.has(this.getModuleOf(path, object.name) ?? '') : object.name === 'fs';
+  }
+
+  /** Módulo de onde vem o identificador: import ou require direto. */
+  private getModuleOf(path: NodePath, name: string): string | null {
+    const binding = path.scope?.getBinding(name);
+    if (!binding) return null;
+
+    const bindingPath = binding.path;
+    const node: any = bindingPath.node;
+    let source: string | null = null;
+
+    if (bindingPath.isImportSpecifier() || bindingPath.isImportDefaultSpecifier() || bindingPath.isImportNamespaceSpecifier()) {
+      source = (bindingPath.parent as any).source.value;
+    } else if (bindingPath.isVariableDeclarator()) {
+      let init = node.init;
+      // require('fs').promises
+      while (this.isMember(init)) init = init.object;
+      if (init?.type === 'CallExpression' && init.callee.type === 'Identifier' && init.callee.name === 'require' &&
+          init.arguments[0]?.type === 'StringLiteral') {
+        source = init.arguments[0].value;
+      }
+    }
+
+    return source ? source.replace(/^node:/, '') : null;
+  }
+
+  /**
+   * Primeiro trecho da expressão que parece vir do cliente: req.params,
+   * request.query, ctx.body, process.argv... Funções aninhadas não entram.
+   */
+  private findUserInput(node: any, file: ParsedFile): string | null {
+    if (!node || typeof node.type !== 'string' || node.type.includes('Function')) return null;
+
+    if (this.isMember(node) && !node.computed && node.object.type === 'Identifier') {
+      const objectName = node.object.name;
+      const property = node.property.name;
+      if ((REQUEST_OBJECTS.has(objectName) && REQUEST_INPUTS.has(property)) || (objectName === 'process' && property === 'argv')) {
+        return file.content.slice(node.start, node.end);
+      }
+    }
+
+    for (const key of VISITOR_KEYS[node.type] ?? []) {
+      const child = node[key];
+      const children = Array.isArray(child) ? child : [child];
+      for (const item of children) {
+        const found = this.findUserInput(item, file);
+        if (found) return found;
+      }
+    }
+
+    return null;
+  }
+
+  private isStringLike(node: any): boolean {
+    if (!node) return false;
+    if (node.type === 'StringLiteral' || node.type === 'TemplateLiteral') return true;
+    return node.type === 'BinaryExpression' && node.operator === '+' && (this.isStringLike(node.left) || this.isStringLike(node.right));
+  }
+
+  /** Template com interpolação ou concatenação com algo que não é literal. */
+  private isDynamicString(node: any): boolean {
+    if (node?.type === 'TemplateLiteral') return node.expressions.length > 0;
+    if (node?.type !== 'BinaryExpression' || node.operator !== '+') return false;
+    return !this.isStaticString(node.left) || !this.isStaticString(node.right);
+  }
+
+  private isStaticString(node: any): boolean {
+    if (!node) return true;
+    if (node.type === 'StringLiteral') return true;
+    if (node.type === 'TemplateLiteral') return node.expressions.length === 0;
+    if (node.type === 'BinaryExpression' && node.operator === '+') return this.isStaticString(node.left) && this.isStaticString(node.right);
+    return false;
+  }
+
+  private isMember(node: any): boolean {
+    return node?.type === 'MemberExpression' || node?.type === 'OptionalMemberExpression';
+  }
+
+  private getFunctionName(callee: any): string {
+    if (callee.type === 'Identifier') return callee.name;
+    const property = callee.property?.name ?? 'função';
+    if (callee.object?.type === 'Identifier') return `${callee.object.name}.${property}`;
+    return property;
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: SecurityRule, description: string): Issue {
+    const definition = SecurityDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.SECURITY)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
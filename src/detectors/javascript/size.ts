@@ -1,4 +1,5 @@
-import { BaseDetector, ParsedFile } from '../base/detector';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
 import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
 
 interface SizeConfig {
@@ -12,7 +13,9 @@ interface SizeConfig {
   };
 }
 
-export class SizeDetector extends BaseDetector {
+export class SizeDetector extends VisitorDetector {
+  protected readonly analysisName = 'tamanho';
+
   private defaultConfig: SizeConfig = {
     enabled: true,
     thresholds: {
@@ -29,60 +32,27 @@ export class SizeDetector extends BaseDetector {
     this.config.thresholds = { ...this.defaultConfig.thresholds, ...config?.thresholds };
   }
 
-  detect(file: ParsedFile): Issue[] {
-    if (!this.isEnabled()) return [];
-
-    const issues: Issue[] = [];
-    
-    try {
-      // Verificar tamanho do arquivo
-      if (file.linesOfCode > this.getThreshold('fileLines', this.defaultConfig.thresholds.fileLines)) {
-        issues.push(this.createFileSizeIssue(file));
-      }
-
-      this.traverseAST(file.ast, file, issues);
-    } catch (error) {
-      console.warn(`Análise de tamanho falhou para ${file.path}:`, error);
-    }
-
-    return issues;
-  }
-
-  private traverseAST(node: any, file: ParsedFile, issues: Issue[]): void {
-    if (!node || typeof node !== 'object') return;
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
 
-    // Verificar tamanho de função
-    if (this.isFunctionNode(node)) {
-      this.checkFunctionSize(file, node, issues);
+    // Verificar tamanho do arquivo
+    if (file.linesOfCode > this.getThreshold('fileLines', this.defaultConfig.thresholds.fileLines)) {
+      issues.push(this.createFileSizeIssue(file));
     }
 
-    // Verificar tamanho de classe
-    if (node.type === 'ClassDeclaration') {
-      this.checkClassSize(file, node, issues);
-    }
-
-    // Verificar tamanho de método (dentro de classes)
-    if (node.type === 'MethodDefinition') {
-      this.checkMethodSize(file, node, issues);
-    }
-
-    // Percorrer recursivamente nós filhos
-    for (const key in node) {
-      if (key === 'parent' || key === 'leadingComments' || key === 'trailingComments') continue;
-      
-      const child = node[key];
-      if (Array.isArray(child)) {
-        child.forEach(item => this.traverseAST(item, file, issues));
-      } else if (child && typeof child === 'object') {
-        this.traverseAST(child, file, issues);
+    return {
+      visitor: {
+        'FunctionDeclaration|FunctionExpression|ArrowFunctionExpression': path => {
+          this.checkFunctionSize(file, path.node, issues);
+        },
+        'ClassMethod|ClassPrivateMethod|ObjectMethod': path => {
+          this.checkMethodSize(file, path.node, issues);
+        },
+        'ClassDeclaration|ClassExpression': path => {
+          this.checkClassSize(file, path.node, issues);
+        }
       }
-    }
-  }
-
-  private isFunctionNode(node: any): boolean {
-    return node.type === 'FunctionDeclaration' ||
-           node.type === 'FunctionExpression' ||
-           node.type === 'ArrowFunctionExpression';
+    };
   }
 
   private checkFunctionSize(file: ParsedFile, node: any, issues: Issue[]): void {
@@ -114,13 +84,18 @@ export class SizeDetector extends BaseDetector {
   }
 
   private checkMethodSize(file: ParsedFile, node: any, issues: Issue[]): void {
-    const methodLines = this.calculateNodeLines(node.value || node);
-    const methodName = node.key?.name || 'método anônimo';
+    const methodLines = this.calculateNodeLines(node);
+    const methodName = this.extractFunctionName(node);
     
     const threshold = this.getThreshold('methodLines', this.defaultConfig.thresholds.methodLines);
     if (methodLines > threshold) {
       issues.push(this.createMethodSizeIssue(file, node, methodName, methodLines));
     }
+
+    const paramThreshold = this.getThreshold('functionParameters', this.defaultConfig.thresholds.functionParameters);
+    if (this.getFunctionParameterCount(node) > paramThreshold) {
+      issues.push(this.createFunctionSizeIssue(file, node, methodName, this.getFunctionParameterCount(node), 'parâmetros'));
+    }
   }
 
   private calculateNodeLines(node: any): number {
@@ -135,71 +110,84 @@ export class SizeDetector extends BaseDetector {
   private extractFunctionName(node: any): string {
     if (node.id?.name) return node.id.name;
     if (node.key?.name) return node.key.name;
+    if (node.key?.type === 'PrivateName') return `#${node.key.id.name}`;
     if (node.type === 'ArrowFunctionExpression') return 'função arrow';
     return 'função anônima';
   }
 
   private createFileSizeIssue(file: ParsedFile): Issue {
     const threshold = this.getThreshold('fileLines', this.defaultConfig.thresholds.fileLines);
+    const location = { file: file.path, line: 1, column: 0 };
+    const fingerprint = this.generateFingerprint(file, 'tamanho-arquivo', location);
     
     return IssueBuilder.create()
-      .withId(this.generateIssueId())
+      .withId(this.generateIssueId(fingerprint, location))
       .withCategory(IssueCategory.SIZE)
       .withSeverity(this.getSeverityBySize(file.linesOfCode, threshold))
       .withTitle(`Arquivo grande: ${file.linesOfCode} linhas`)
       .withDescription(`O arquivo tem ${file.linesOfCode} linhas, que excede o limite recomendado de ${threshold} linhas.`)
       .withSuggestion(`Considere dividir este arquivo em módulos menores e mais focados. Agrupe funcionalidades relacionadas e extraia-as em arquivos separados. Isso melhora a manutenibilidade e torna o código mais fácil de entender.`)
-      .withLocation({ file: file.path, line: 1, column: 0 })
+      .withLocation(location)
       .withRule('tamanho-arquivo')
+      .withFingerprint(fingerprint)
       .build();
   }
 
   private createFunctionSizeIssue(file: ParsedFile, node: any, name: string, size: number, type: 'linhas' | 'parâmetros'): Issue {
     const thresholdKey = type === 'linhas' ? 'functionLines' : 'functionParameters';
     const threshold = this.getThreshold(thresholdKey, this.defaultConfig.thresholds[thresholdKey]);
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, `funcao-${type}`, location);
     
     return IssueBuilder.create()
-      .withId(this.generateIssueId())
+      .withId(this.generateIssueId(fingerprint, location))
       .withCategory(IssueCategory.SIZE)
       .withSeverity(this.getSeverityBySize(size, threshold))
       .withTitle(`Função grande: ${size} ${type}`)
       .withDescription(`A função "${name}" tem ${size} ${type}, que excede o limite recomendado de ${threshold} ${type}.`)
       .withSuggestion(this.getFunctionSizeSuggestion(type))
-      .withLocation(this.createLocation(file, node))
-      .withCodeSnippet(this.extractCodeSnippet(file, this.createLocation(file, node)))
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
       .withRule(`funcao-${type}`)
+      .withFingerprint(fingerprint)
       .build();
   }
 
   private createClassSizeIssue(file: ParsedFile, node: any, name: string, lines: number): Issue {
     const threshold = this.getThreshold('classLines', this.defaultConfig.thresholds.classLines);
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, 'tamanho-classe', location);
     
     return IssueBuilder.create()
-      .withId(this.generateIssueId())
+      .withId(this.generateIssueId(fingerprint, location))
       .withCategory(IssueCategory.SIZE)
       .withSeverity(this.getSeverityBySize(lines, threshold))
       .withTitle(`Classe grande: ${lines} linhas`)
       .withDescription(`A classe "${name}" tem ${lines} linhas, que excede o limite recomendado de ${threshold} linhas.`)
       .withSuggestion(`Considere dividir esta classe em classes menores e mais focadas. Aplique o Princípio da Responsabilidade Única - cada classe deve ter apenas uma razão para mudar. Extraia métodos relacionados em classes separadas ou use composição.`)
-      .withLocation(this.createLocation(file, node))
-      .withCodeSnippet(this.extractCodeSnippet(file, this.createLocation(file, node)))
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
       .withRule('tamanho-classe')
+      .withFingerprint(fingerprint)
       .build();
   }
 
   private createMethodSizeIssue(file: ParsedFile, node: any, name: string, lines: number): Issue {
     const threshold = this.getThreshold('methodLines', this.defaultConfig.thresholds.methodLines);
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, 'tamanho-metodo', location);
     
     return IssueBuilder.create()
-      .withId(this.generateIssueId())
+      .withId(this.generateIssueId(fingerprint, location))
       .withCategory(IssueCategory.SIZE)
       .withSeverity(this.getSeverityBySize(lines, threshold))
       .withTitle(`Método grande: ${lines} linhas`)
       .withDescription(`O método "${name}" tem ${lines} linhas, que excede o limite recomendado de ${threshold} linhas.`)
       .withSuggestion(`Considere dividir este método em métodos menores e mais focados. Extraia blocos lógicos em métodos privados com nomes descritivos. Isso melhora a legibilidade e torna o código mais fácil de testar.`)
-      .withLocation(this.createLocation(file, node))
-      .withCodeSnippet(this.extractCodeSnippet(file, this.createLocation(file, node)))
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, location))
       .withRule('tamanho-metodo')
+      .withFingerprint(fingerprint)
       .build();
   }
 
@@ -0,0 +1,286 @@
+import { NodePath } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface TypeSafetyConfig {
+  enabled: boolean;
+  /** Quantas ocorrências de cada regra um arquivo pode ter antes de ser apontado. */
+  thresholds: Record<TypeSafetyRule, number>;
+  rules: {
+    explicitAny: boolean;
+    asAny: boolean;
+    nonNullAssertion: boolean;
+    tsComment: boolean;
+    doubleCast: boolean;
+    missingReturnType: boolean;
+    bannedTypes: boolean;
+  };
+}
+
+type TypeSafetyRule = keyof TypeSafetyConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+interface Occurrence {
+  node: any;
+  description: string;
+}
+
+const TYPESCRIPT_FILE = /\.[cm]?tsx?$/i;
+const CAST_TYPES = new Set(['TSAsExpression', 'TSTypeAssertion']);
+const BANNED_TYPES = new Set(['Function', 'Object']);
+
+/** @ts-ignore e @ts-nocheck seguidos (ou não) de uma explicação. */
+const TS_DIRECTIVE = /^\s*\*?\s*@ts-(ignore|nocheck)\b[\s:\-–—]*(.*)$/;
+const MIN_EXPLANATION_LENGTH = 3;
+
+export class TypeSafetyDetector extends VisitorDetector {
+  protected readonly analysisName = 'segurança de tipos';
+
+  private defaultConfig: TypeSafetyConfig = {
+    enabled: true,
+    thresholds: {
+      explicitAny: 0,
+      asAny: 0,
+      nonNullAssertion: 0,
+      tsComment: 0,
+      doubleCast: 0,
+      missingReturnType: 0,
+      bannedTypes: 0
+    },
+    rules: {
+      explicitAny: true,
+      asAny: true,
+      nonNullAssertion: true,
+      tsComment: true,
+      doubleCast: true,
+      missingReturnType: true,
+      bannedTypes: true
+    }
+  };
+
+  static readonly RULES: Record<TypeSafetyRule, RuleDefinition> = {
+    explicitAny: {
+      id: 'any-explicito',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Tipo any explícito',
+      suggestion: 'Use o tipo real, um genérico ou unknown (que obriga a verificar o valor antes de usar). any desliga a checagem de tipos para tudo que toca no valor.'
+    },
+    asAny: {
+      id: 'cast-para-any',
+      severity: IssueSeverity.HIGH,
+      title: 'Conversão com as any',
+      suggestion: 'Corrija o tipo de origem ou converta para o tipo esperado. as any esconde o erro de tipo em vez de resolvê-lo.'
+    },
+    nonNullAssertion: {
+      id: 'assercao-nao-nula',
+      severity: IssueSeverity.LOW,
+      title: 'Asserção de não nulo (!)',
+      suggestion: 'Verifique o valor antes de usar (if, ?? ou ?.) ou ajuste o tipo para não incluir null/undefined. O ! só silencia o compilador.'
+    },
+    tsComment: {
+      id: 'ts-ignore-sem-explicacao',
+      severity: IssueSeverity.MEDIUM,
+      title: '@ts-ignore ou @ts-nocheck sem explicação',
+      suggestion: 'Escreva na mesma linha por que o erro pode ser ignorado. Prefira @ts-expect-error, que falha quando o erro deixa de existir.'
+    },
+    doubleCast: {
+      id: 'cast-duplo',
+      severity: IssueSeverity.HIGH,
+      title: 'Conversão dupla (as unknown as T)',
+      suggestion: 'Um cast duplo força qualquer valor para qualquer tipo. Valide o valor com um type guard ou corrija os tipos envolvidos.'
+    },
+    missingReturnType: {
+      id: 'retorno-sem-tipo',
+      severity: IssueSeverity.LOW,
+      title: 'Função exportada sem tipo de retorno',
+      suggestion: 'Declare o tipo de retorno das funções exportadas. Assim uma mudança na implementação não altera a API pública sem ninguém perceber.'
+    },
+    bannedTypes: {
+      id: 'tipo-function-object',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Uso dos tipos Function ou Object',
+      suggestion: 'Use uma assinatura de função, como (valor: string) => void, no lugar de Function, e Record<string, unknown> ou object no lugar de Object.'
+    }
+  };
+
+  constructor(config?: Partial<TypeSafetyConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.thresholds = { ...this.defaultConfig.thresholds, ...config?.thresholds };
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+  }
+
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled() || !TYPESCRIPT_FILE.test(file.path)) return null;
+
+    const occurrences = new Map<TypeSafetyRule, Occurrence[]>();
+    const record = (rule: TypeSafetyRule, node: any, description: string) => {
+      if (!this.isRuleEnabled(rule)) return;
+      if (!occurrences.has(rule)) occurrences.set(rule, []);
+      occurrences.get(rule)!.push({ node, description });
+    };
+
+    return {
+      visitor: {
+        TSAnyKeyword: path => {
+          // as any e o any interno de um cast duplo têm regras próprias
+          if (CAST_TYPES.has(path.parent.type) && (path.parent as any).typeAnnotation === path.node) return;
+          record('explicitAny', path.node, `any explícito em ${this.describeAnyPosition(path)}.`);
+        },
+        'TSAsExpression|TSTypeAssertion': path => {
+          const node: any = path.node;
+          const inner = node.expression;
+
+          if (CAST_TYPES.has(inner.type) && this.isTopType(inner.typeAnnotation)) {
+            const via = inner.typeAnnotation.type === 'TSAnyKeyword' ? 'any' : 'unknown';
+            record('doubleCast', node, `Valor convertido para ${via} e depois para ${this.getSource(file, node.typeAnnotation)}.`);
+            return;
+          }
+
+          const isInnerOfDoubleCast = CAST_TYPES.has(path.parent.type) && (path.parent as any).expression === node;
+          if (node.typeAnnotation.type === 'TSAnyKeyword' && !isInnerOfDoubleCast) {
+            record('asAny', node, `"${this.truncate(this.getSource(file, inner))}" é convertido para any.`);
+          }
+        },
+        TSNonNullExpression: path => {
+          record('nonNullAssertion', path.node, `Asserção de não nulo em "${this.truncate(this.getSource(file, path.node))}".`);
+        },
+        TSTypeReference: path => {
+          const typeName: any = path.node.typeName;
+          if (typeName.type === 'Identifier' && BANNED_TYPES.has(typeName.name) && !path.scope?.hasBinding(typeName.name, true)) {
+            record('bannedTypes', path.node, `O tipo ${typeName.name} aceita praticamente qualquer valor.`);
+          }
+        },
+        'ExportNamedDeclaration|ExportDefaultDeclaration': path => {
+          this.findExportedFunctions((path.node as any).declaration).forEach(({ node, name }) => {
+            record('missingReturnType', node, `A função exportada "${name}" não declara o tipo de retorno.`);
+          });
+        }
+      },
+      finish: () => {
+        (file.ast.comments ?? []).forEach((comment: any) => {
+          const match = comment.value.match(TS_DIRECTIVE);
+          if (match && match[2].trim().length < MIN_EXPLANATION_LENGTH) {
+            record('tsComment', comment, `@ts-${match[1]} sem explicação de por que o erro pode ser ignorado.`);
+          }
+        });
+
+        occurrences.forEach((found, rule) => {
+          const limit = this.getThreshold(rule, this.defaultConfig.thresholds[rule]);
+          if (found.length <= limit) return;
+
+          found.forEach(({ node, description }) => {
+            const detail = limit > 0 ? ` O arquivo tem ${found.length} ocorrências (limite ${limit}).` : '';
+            issues.push(this.createIssue(file, node, rule, `${description}${detail}`));
+          });
+        });
+
+        issues.sort((a, b) => a.location.line - b.location.line || a.location.column - b.location.column);
+      }
+    };
+  }
+
+  /**
+   * Funções exportadas sem tipo de retorno: declarações, export default e
+   * constantes que recebem arrow functions ou function expressions sem
+   * anotação na própria variável.
+   */
+  private findExportedFunctions(declaration: any): Array<{ node: any; name: string }> {
+    if (!declaration) return [];
+
+    if (declaration.type === 'FunctionDeclaration' || declaration.type === 'ArrowFunctionExpression' || declaration.type === 'FunctionExpression') {
+      return declaration.returnType ? [] : [{ node: declaration, name: declaration.id?.name ?? 'default' }];
+    }
+
+    if (declaration.type !== 'VariableDeclaration') return [];
+
+    return declaration.declarations
+      .filter((declarator: any) => {
+        const init = declarator.init;
+        const isFunction = init?.type === 'ArrowFunctionExpression' || init?.type === 'FunctionExpression';
+        return isFunction && !init.returnType && !declarator.id.typeAnnotation;
+      })
+      .map((declarator: any) => ({ node: declarator, name: declarator.id.name ?? 'anônima' }));
+  }
+
+  private isTopType(node: any): boolean {
+    return node?.type === 'TSUnknownKeyword' || node?.type === 'TSAnyKeyword';
+  }
+
+  private describeAnyPosition(path: NodePath): string {
+    const owner = path.findParent(parent =>
+      parent.isFunction() || parent.isVariableDeclarator() || parent.isClassProperty() ||
+      parent.isTSPropertySignature() || parent.isTSTypeAliasDeclaration() || parent.isTSInterfaceDeclaration());
+    const node: any = owner?.node;
+
+    if (!node) return 'anotação de tipo';
+    if (owner!.isFunction()) return this.describeFunctionPosition(path, owner!);
+    if (owner!.isVariableDeclarator()) return node.id?.name ? `"${node.id.name}"` : 'variável';
+    if (owner!.isTSTypeAliasDeclaration() || owner!.isTSInterfaceDeclaration()) return `"${node.id.name}"`;
+    return node.key?.name ? `"${node.key.name}"` : 'propriedade';
+  }
+
+  /** Diferencia o any de um parâmetro, do retorno e de outras partes da assinatura. */
+  private describeFunctionPosition(path: NodePath, owner: NodePath): string {
+    const name = this.getFunctionName(owner);
+    const functionName = name ? `"${name}"` : 'função anônima';
+    const child = path.findParent(parent => parent.parentPath === owner);
+
+    if (child?.key === 'returnType') return `retorno de ${functionName}`;
+    if (child?.listKey !== 'params') return functionName;
+
+    const parameter = this.getParameterName(child.node);
+    return parameter ? `parâmetro "${parameter}" de ${functionName}` : `parâmetro de ${functionName}`;
+  }
+
+  private getFunctionName(owner: NodePath): string | null {
+    const node: any = owner.node;
+    if (node.id?.name) return node.id.name;
+    if (node.key?.name) return node.key.name;
+
+    const parent: any = owner.parent;
+    return parent.type === 'VariableDeclarator' && parent.id.type === 'Identifier' ? parent.id.name : null;
+  }
+
+  private getParameterName(param: any): string | null {
+    if (param.type === 'TSParameterProperty') return this.getParameterName(param.parameter);
+    if (param.type === 'AssignmentPattern') return this.getParameterName(param.left);
+    if (param.type === 'RestElement') return this.getParameterName(param.argument);
+    return param.type === 'Identifier' ? param.name : null;
+  }
+
+  private getSource(file: ParsedFile, node: any): string {
+    if (typeof node.start !== 'number' || typeof node.end !== 'number') return '';
+    return file.content.slice(node.start, node.end);
+  }
+
+  private truncate(source: string): string {
+    const singleLine = source.replace(/\s+/g, ' ');
+    return singleLine.length > 40 ? `${singleLine.slice(0, 37)}...` : singleLine;
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: TypeSafetyRule, description: string): Issue {
+    const definition = TypeSafetyDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.BEST_PRACTICES)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: location.line }))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
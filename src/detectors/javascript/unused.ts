@@ -0,0 +1,373 @@
+import { Binding, NodePath, Scope } from '@babel/traverse';
+import { VisitorDetector, ParsedFile } from '../base/detector';
+import { DetectorPass } from '../base/traversal';
+import { Issue, IssueBuilder, IssueSeverity, IssueCategory } from '../../models/issue';
+
+interface UnusedConfig {
+  enabled: boolean;
+  rules: {
+    variables: boolean;
+    parameters: boolean;
+    imports: boolean;
+    privateMembers: boolean;
+  };
+  /** Nomes de variáveis e parâmetros que casam com esta expressão não são apontados. */
+  ignorePattern: string;
+}
+
+type UnusedRule = keyof UnusedConfig['rules'];
+
+interface RuleDefinition {
+  id: string;
+  severity: IssueSeverity;
+  title: string;
+  suggestion: string;
+}
+
+/** Membros privados declarados no corpo de uma classe e os nomes acessados nele. */
+interface ClassFrame {
+  className: string;
+  members: Map<string, any>;
+  accessed: Set<string>;
+}
+
+export class UnusedCodeDetector extends VisitorDetector {
+  protected readonly analysisName = 'código não usado';
+
+  private defaultConfig: UnusedConfig = {
+    enabled: true,
+    rules: {
+      variables: true,
+      parameters: true,
+      imports: true,
+      privateMembers: true
+    },
+    ignorePattern: '^_'
+  };
+
+  private ignorePattern: RegExp;
+
+  static readonly RULES: Record<UnusedRule, RuleDefinition> = {
+    variables: {
+      id: 'variavel-nao-usada',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Variável não usada',
+      suggestion: 'Remova a declaração. Se o valor precisa ser calculado pelos efeitos colaterais, mantenha só a expressão.'
+    },
+    parameters: {
+      id: 'parametro-nao-usado',
+      severity: IssueSeverity.LOW,
+      title: 'Parâmetro não usado',
+      suggestion: 'Remova o parâmetro ou, se a assinatura precisa dele (callbacks, interfaces), prefixe o nome com "_".'
+    },
+    imports: {
+      id: 'import-nao-usado',
+      severity: IssueSeverity.LOW,
+      title: 'Import não usado',
+      suggestion: 'Remova o import. Imports mortos aumentam o acoplamento aparente e podem carregar módulos à toa.'
+    },
+    privateMembers: {
+      id: 'membro-privado-nao-usado',
+      severity: IssueSeverity.MEDIUM,
+      title: 'Membro privado não usado',
+      suggestion: 'Remova o membro. Por ser privado, nenhum código fora da classe pode depender dele.'
+    }
+  };
+
+  constructor(config?: Partial<UnusedConfig>) {
+    super({ ...config, enabled: config?.enabled ?? true });
+    this.config.rules = { ...this.defaultConfig.rules, ...config?.rules };
+    this.ignorePattern = new RegExp(config?.ignorePattern ?? this.defaultConfig.ignorePattern);
+  }
+
+  /**
+   * As ligações vêm da análise de escopo do Babel, que não conta usos em
+   * posição de tipo; por isso os nomes usados em tipos são coletados na
+   * travessia e as ligações só são avaliadas no finish. Arquivos com erros de
+   * sintaxe são percorridos sem escopo e só têm os membros privados checados.
+   */
+  createPass(file: ParsedFile, issues: Issue[]): DetectorPass | null {
+    if (!this.isEnabled()) return null;
+
+    const scopes = new Set<Scope>();
+    const typeReferences = new Set<string>();
+    const classes: ClassFrame[] = [];
+    let hasJsx = false;
+
+    return {
+      visitor: {
+        Scopable: path => {
+          if (path.scope) scopes.add(path.scope);
+        },
+        TSTypeReference: path => {
+          this.addTypeReference(path.node.typeName, typeReferences);
+        },
+        TSTypeQuery: path => {
+          this.addTypeReference(path.node.exprName, typeReferences);
+        },
+        // implements Foo, interface X extends Foo
+        TSExpressionWithTypeArguments: path => {
+          this.addTypeReference(path.node.expression, typeReferences);
+        },
+        'JSXElement|JSXFragment': () => {
+          hasJsx = true;
+        },
+        ClassBody: {
+          enter: path => {
+            classes.push({
+              className: (path.parent as any).id?.name ?? 'classe anônima',
+              members: this.collectPrivateMembers(path.node),
+              accessed: new Set()
+            });
+          },
+          exit: () => {
+            const frame = classes.pop()!;
+            if (!this.isRuleEnabled('privateMembers')) return;
+
+            frame.members.forEach((node, name) => {
+              if (!frame.accessed.has(name)) {
+                issues.push(this.createIssue(
+                  file,
+                  node,
+                  'privateMembers',
+                  `O membro privado "${name}" da classe ${frame.className} nunca é usado.`
+                ));
+              }
+            });
+          }
+        },
+        'MemberExpression|OptionalMemberExpression': path => {
+          const name = this.getPropertyName(path.node);
+          if (name) classes.forEach(frame => frame.accessed.add(name));
+        },
+        BinaryExpression: path => {
+          // #campo in objeto
+          const left: any = path.node.left;
+          if (left.type === 'PrivateName') {
+            classes.forEach(frame => frame.accessed.add(`#${left.id.name}`));
+          }
+        },
+        ObjectPattern: path => {
+          // const { campo } = this
+          path.node.properties.forEach((property: any) => {
+            if (property.type === 'ObjectProperty' && !property.computed && property.key.type === 'Identifier') {
+              classes.forEach(frame => frame.accessed.add(property.key.name));
+            }
+          });
+        }
+      },
+      finish: () => {
+        // O Babel registra o nome de uma classe tanto no escopo que a declara quanto no escopo da própria classe
+        const checked = new Set<object>();
+
+        scopes.forEach(scope => {
+          Object.values(scope.bindings).forEach(binding => {
+            if (checked.has(binding.identifier)) return;
+            checked.add(binding.identifier);
+
+            if (this.isUsed(binding, typeReferences, hasJsx)) return;
+            if (binding.kind !== 'module' && this.ignorePattern.test(binding.identifier.name)) return;
+
+            const issue = this.checkBinding(file, binding);
+            if (issue) issues.push(issue);
+          });
+        });
+
+        issues.sort((a, b) => a.location.line - b.location.line || a.location.column - b.location.column);
+      }
+    };
+  }
+
+  private checkBinding(file: ParsedFile, binding: Binding): Issue | null {
+    const name = binding.identifier.name;
+
+    switch (binding.kind) {
+      case 'module':
+      case 'unknown':
+        if (!this.isImport(binding) || !this.isRuleEnabled('imports')) return null;
+        return this.createIssue(
+          file,
+          binding.path.node,
+          'imports',
+          `"${name}" é importado de "${(binding.path.parent as any).source.value}" e nunca é usado.`
+        );
+
+      case 'param':
+        if (!this.isRuleEnabled('parameters') || !this.isReportableParam(binding)) return null;
+        return this.createIssue(file, binding.identifier, 'parameters', `O parâmetro "${name}" não é usado.`);
+
+      case 'var':
+      case 'let':
+      case 'const':
+      case 'hoisted':
+        if (!this.isRuleEnabled('variables') || !this.isReportableVariable(binding)) return null;
+        return this.createIssue(file, binding.identifier, 'variables', this.describeVariable(binding));
+
+      default:
+        return null;
+    }
+  }
+
+  private isUsed(binding: Binding, typeReferences: Set<string>, hasJsx: boolean): boolean {
+    const name = binding.identifier.name;
+
+    if (binding.referenced || typeReferences.has(name)) return true;
+
+    // JSX clássico compila para React.createElement sem citar o import
+    return hasJsx && name === 'React' && binding.kind === 'module';
+  }
+
+  private isImport(binding: Binding): boolean {
+    return binding.path.isImportSpecifier() ||
+           binding.path.isImportDefaultSpecifier() ||
+           binding.path.isImportNamespaceSpecifier();
+  }
+
+  /**
+   * Parâmetros são posicionais: um parâmetro não usado antes de outro usado
+   * não pode ser removido, então só os que vêm depois do último usado são
+   * apontados. Propriedades desestruturadas são independentes da posição.
+   */
+  private isReportableParam(binding: Binding): boolean {
+    const functionNode: any = binding.scope.block;
+    const params: any[] = functionNode.params ?? [];
+    const index = params.findIndex(param => this.unwrapParam(param) === binding.identifier);
+
+    if (index === -1) {
+      // Desestruturação; parâmetros de propriedade (private x) são membros da classe
+      return !params.some(param =>
+        (param.type === 'TSParameterProperty' && this.unwrapParam(param) === binding.identifier) ||
+        this.isRestSibling(this.unwrapParam(param), binding.identifier)
+      );
+    }
+
+    return params.slice(index + 1).every(param => {
+      const identifier = this.unwrapParam(param);
+      if (identifier?.type !== 'Identifier') return true;
+      const later = binding.scope.getOwnBinding(identifier.name);
+      return !later?.referenced;
+    });
+  }
+
+  private unwrapParam(param: any): any {
+    if (param.type === 'TSParameterProperty') return this.unwrapParam(param.parameter);
+    if (param.type === 'AssignmentPattern') return param.left;
+    if (param.type === 'RestElement') return param.argument;
+    return param;
+  }
+
+  private isReportableVariable(binding: Binding): boolean {
+    const path = binding.path;
+
+    // Parâmetro do catch: fica para o detector de tratamento de erros
+    if (path.isCatchClause()) return false;
+    if (this.isDeclared(path)) return false;
+    if (this.isExported(path)) return false;
+
+    return !(path.isVariableDeclarator() && this.isRestSibling(path.node.id, binding.identifier));
+  }
+
+  /**
+   * { omitido, ...resto }: a propriedade existe só para ficar fora do resto,
+   * então não é apontada mesmo sem uso.
+   */
+  private isRestSibling(pattern: any, identifier: any): boolean {
+    if (pattern?.type === 'AssignmentPattern') return this.isRestSibling(pattern.left, identifier);
+    if (pattern?.type === 'ArrayPattern') {
+      return pattern.elements.some((element: any) => this.isRestSibling(element, identifier));
+    }
+    if (pattern?.type !== 'ObjectPattern') return false;
+
+    const hasRest = pattern.properties.some((property: any) => property.type === 'RestElement');
+
+    return pattern.properties.some((property: any) => {
+      if (property.type !== 'ObjectProperty') return false;
+
+      const value = property.value.type === 'AssignmentPattern' ? property.value.left : property.value;
+      return (hasRest && value === identifier) || this.isRestSibling(value, identifier);
+    });
+  }
+
+  private isDeclared(path: NodePath): boolean {
+    const node: any = path.node;
+    const parent: any = path.parent;
+    return Boolean(node.declare || parent?.declare);
+  }
+
+  private isExported(path: NodePath): boolean {
+    const declaration = path.isVariableDeclarator() ? path.parentPath : path;
+    return Boolean(declaration?.parentPath?.isExportNamedDeclaration() || declaration?.parentPath?.isExportDefaultDeclaration());
+  }
+
+  private describeVariable(binding: Binding): string {
+    const name = binding.identifier.name;
+
+    if (binding.path.isFunctionDeclaration()) return `A função "${name}" é declarada e nunca é chamada.`;
+    if (binding.path.isClassDeclaration()) return `A classe "${name}" é declarada e nunca é usada.`;
+    if (binding.constantViolations.length > 0) return `A variável "${name}" recebe valores mas nunca é lida.`;
+    return `A variável "${name}" é declarada e nunca é usada.`;
+  }
+
+  /** Campos, métodos e acessores #privados ou com o modificador private do TypeScript. */
+  private collectPrivateMembers(body: any): Map<string, any> {
+    const members = new Map<string, any>();
+
+    body.body.forEach((member: any) => {
+      if (member.kind === 'constructor') {
+        member.params.forEach((param: any) => {
+          const identifier = this.unwrapParam(param);
+          if (param.type === 'TSParameterProperty' && param.accessibility === 'private' && identifier?.type === 'Identifier') {
+            members.set(identifier.name, param);
+          }
+        });
+        return;
+      }
+
+      if (member.declare) return;
+
+      if (member.type === 'ClassPrivateProperty' || member.type === 'ClassPrivateMethod') {
+        members.set(`#${member.key.id.name}`, member);
+      } else if (member.accessibility === 'private' && !member.computed && member.key?.type === 'Identifier') {
+        members.set(member.key.name, member);
+      }
+    });
+
+    return members;
+  }
+
+  private getPropertyName(node: any): string | null {
+    const property = node.property;
+
+    if (property.type === 'PrivateName') return `#${property.id.name}`;
+    if (!node.computed && property.type === 'Identifier') return property.name;
+    if (node.computed && property.type === 'StringLiteral') return property.value;
+    return null;
+  }
+
+  private addTypeReference(node: any, references: Set<string>): void {
+    // Foo.Bar.Baz: só Foo é uma ligação do arquivo
+    while (node && (node.type === 'TSQualifiedName' || node.type === 'MemberExpression')) {
+      node = node.type === 'TSQualifiedName' ? node.left : node.object;
+    }
+    if (node?.type === 'Identifier') references.add(node.name);
+  }
+
+  private createIssue(file: ParsedFile, node: any, rule: UnusedRule, description: string): Issue {
+    const definition = UnusedCodeDetector.RULES[rule];
+    const location = this.createLocation(file, node);
+    const fingerprint = this.generateFingerprint(file, definition.id, location);
+
+    return IssueBuilder.create()
+      .withId(this.generateIssueId(fingerprint, location))
+      .withCategory(IssueCategory.BEST_PRACTICES)
+      .withSeverity(definition.severity)
+      .withTitle(definition.title)
+      .withDescription(description)
+      .withSuggestion(definition.suggestion)
+      .withLocation(location)
+      .withCodeSnippet(this.extractCodeSnippet(file, { ...location, endLine: location.line }))
+      .withRule(definition.id)
+      .withFingerprint(fingerprint)
+      .build();
+  }
+}
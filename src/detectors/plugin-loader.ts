@@ -0,0 +1,185 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseDetector, VisitorDetector } from './base/detector';
+import { IssueBuilder, IssueCategory, IssueSeverity } from '../models/issue';
+import { createLogger } from '../utils/logger';
+
+export interface DetectorInfo {
+  name: string;
+  description: string;
+  category: string;
+  defaultConfig: any;
+  rules: string[];
+}
+
+export type DetectorClass = new (config?: any) => BaseDetector;
+
+export interface PluginDetectorDefinition {
+  detector: DetectorClass;
+  info: DetectorInfo;
+}
+
+export interface RevisorPlugin {
+  name?: string;
+  detectors: Record<string, PluginDetectorDefinition>;
+}
+
+/**
+ * Entregue aos plugins exportados como função, para que estendam o mesmo
+ * BaseDetector usado aqui sem depender do caminho interno do pacote.
+ * Detectores que estendem VisitorDetector entram na travessia compartilhada.
+ */
+export interface PluginApi {
+  BaseDetector: typeof BaseDetector;
+  VisitorDetector: typeof VisitorDetector;
+  IssueBuilder: typeof IssueBuilder;
+  IssueCategory: typeof IssueCategory;
+  IssueSeverity: typeof IssueSeverity;
+}
+
+export interface LoadedPlugin {
+  name: string;
+  specifier: string;
+  resolvedPath: string;
+  /** Hash do código do plugin e dos módulos locais que ele importa; entra na chave do cache. */
+  contentHash: string;
+  detectors: Record<string, PluginDetectorDefinition>;
+}
+
+const pluginLogger = createLogger('PluginLoader');
+
+const PLUGIN_API: PluginApi = { BaseDetector, VisitorDetector, IssueBuilder, IssueCategory, IssueSeverity };
+
+/**
+ * Carrega os plugins na ordem da configuração. Caminhos locais já chegam
+ * absolutos do ConfigManager; nomes de pacote são resolvidos a partir do
+ * diretório atual. Qualquer falha interrompe o carregamento com a causa.
+ */
+export function loadPlugins(specifiers: string[]): LoadedPlugin[] {
+  return specifiers.map(specifier => loadPlugin(specifier));
+}
+
+function loadPlugin(specifier: string): LoadedPlugin {
+  const fail = (reason: string): never => {
+    throw new Error(`Falha ao carregar plugin "${specifier}": ${reason}`);
+  };
+
+  let resolvedPath = '';
+  let exported: any;
+
+  try {
+    resolvedPath = require.resolve(specifier, { paths: [process.cwd()] });
+  } catch {
+    fail('módulo não encontrado');
+  }
+
+  try {
+    exported = require(resolvedPath);
+  } catch (error) {
+    fail(`erro ao executar o módulo (${(error as Error).message})`);
+  }
+
+  let plugin = exported?.__esModule && exported.default ? exported.default : exported;
+
+  if (typeof plugin === 'function') {
+    try {
+      plugin = plugin(PLUGIN_API);
+    } catch (error) {
+      fail(`erro ao inicializar o plugin (${(error as Error).message})`);
+    }
+  }
+
+  if (!plugin || typeof plugin !== 'object' || !plugin.detectors || typeof plugin.detectors !== 'object') {
+    fail('o módulo deve exportar um objeto com "detectors" ou uma função que o retorne');
+  }
+
+  const detectorNames = Object.keys(plugin.detectors);
+  if (detectorNames.length === 0) {
+    fail('nenhum detector exportado');
+  }
+
+  detectorNames.forEach(detectorName => {
+    const problem = validateDefinition(plugin.detectors[detectorName]);
+    if (problem) {
+      fail(`detector "${detectorName}" inválido: ${problem}`);
+    }
+  });
+
+  const loadedPlugin: LoadedPlugin = {
+    name: typeof plugin.name === 'string' ? plugin.name : path.basename(specifier),
+    specifier,
+    resolvedPath,
+    contentHash: hashModuleFiles(resolvedPath),
+    detectors: plugin.detectors
+  };
+
+  pluginLogger.debug('Plugin carregado', {
+    name: loadedPlugin.name,
+    resolvedPath,
+    detectors: detectorNames
+  });
+
+  return loadedPlugin;
+}
+
+/**
+ * Percorre os módulos carregados a partir do plugin, ignorando dependências
+ * em node_modules, e combina o conteúdo de todos em um hash.
+ */
+function hashModuleFiles(resolvedPath: string): string {
+  const files = new Set<string>([resolvedPath]);
+  const pending = [require.cache[resolvedPath]];
+
+  while (pending.length > 0) {
+    const current = pending.pop();
+    current?.children.forEach(child => {
+      if (files.has(child.filename) || child.filename.split(path.sep).includes('node_modules')) return;
+      files.add(child.filename);
+      pending.push(child);
+    });
+  }
+
+  const hash = crypto.createHash('sha1');
+  Array.from(files).sort().forEach(file => {
+    hash.update(file);
+    try {
+      hash.update(fs.readFileSync(file));
+    } catch {
+      // Módulo sem arquivo em disco (ex.: embutido): o caminho basta
+    }
+  });
+
+  return hash.digest('hex');
+}
+
+function validateDefinition(definition: any): string | null {
+  if (!definition || typeof definition !== 'object') {
+    return 'esperado { detector, info }';
+  }
+
+  if (typeof definition.detector !== 'function' || typeof definition.detector.prototype?.detect !== 'function') {
+    return '"detector" deve ser uma classe que estende BaseDetector';
+  }
+
+  const info = definition.info;
+  if (!info || typeof info !== 'object') {
+    return '"info" ausente';
+  }
+
+  for (const field of ['name', 'description', 'category']) {
+    if (typeof info[field] !== 'string' || info[field].length === 0) {
+      return `"info.${field}" deve ser um texto`;
+    }
+  }
+
+  if (!Array.isArray(info.rules) || info.rules.some((rule: unknown) => typeof rule !== 'string')) {
+    return '"info.rules" deve ser uma lista de ids de regra';
+  }
+
+  if (info.defaultConfig !== undefined && (typeof info.defaultConfig !== 'object' || info.defaultConfig === null)) {
+    return '"info.defaultConfig" deve ser um objeto';
+  }
+
+  return null;
+}
@@ -10,7 +10,10 @@ export enum IssueCategory {
   NAMING = 'naming',
   SIZE = 'size',
   DUPLICATION = 'duplication',
-  BEST_PRACTICES = 'best_practices'
+  BEST_PRACTICES = 'best_practices',
+  DEAD_CODE = 'dead_code',
+  SECURITY = 'security',
+  ACCESSIBILITY = 'accessibility'
 }
 
 export interface IssueLocation {
@@ -31,6 +34,7 @@ export interface Issue {
   location: IssueLocation;
   codeSnippet?: string;
   rule: string;
+  fingerprint: string;
 }
 
 export class IssueBuilder {
@@ -85,10 +89,15 @@ export class IssueBuilder {
     return this;
   }
 
+  withFingerprint(fingerprint: string): IssueBuilder {
+    this.issue.fingerprint = fingerprint;
+    return this;
+  }
+
   build(): Issue {
     if (!this.issue.id || !this.issue.category || !this.issue.severity || 
         !this.issue.title || !this.issue.description || !this.issue.suggestion || 
-        !this.issue.location || !this.issue.rule) {
+        !this.issue.location || !this.issue.rule || !this.issue.fingerprint) {
       throw new Error('Propriedades obrigatórias do problema estão faltando');
     }
     
@@ -1,10 +1,55 @@
 import { Issue, IssueSeverity, IssueCategory } from './issue';
 
+export interface FunctionMetrics {
+  name: string;
+  line: number;
+  column: number;
+  endLine: number;
+  cyclomaticComplexity?: number;
+  cognitiveComplexity?: number;
+  maxNestingDepth?: number;
+  maxCallbackDepth?: number;
+  halstead?: HalsteadMetrics;
+  maintainabilityIndex?: number;
+}
+
+/** Métricas de Halstead, contadas sobre os operadores e operandos do código. */
+export interface HalsteadMetrics {
+  distinctOperators: number;
+  distinctOperands: number;
+  totalOperators: number;
+  totalOperands: number;
+  vocabulary: number;
+  length: number;
+  volume: number;
+  difficulty: number;
+  effort: number;
+  estimatedBugs: number;
+}
+
+export interface FileMetrics {
+  halstead?: HalsteadMetrics;
+  /** Média do índice das funções (0–100); o arquivo inteiro quando não há funções. */
+  maintainabilityIndex?: number;
+  functions: FunctionMetrics[];
+}
+
 export interface FileAnalysis {
   path: string;
   linesOfCode: number;
   issues: Issue[];
   score: number;
+  suppressedIssues: number;
+  metrics: FileMetrics;
+}
+
+/** Agregado das métricas dos arquivos que têm índice de manutenibilidade. */
+export interface MetricsSummary {
+  averageMaintainabilityIndex: number;
+  lowestMaintainabilityIndex: number;
+  totalVolume: number;
+  totalEffort: number;
+  estimatedBugs: number;
 }
 
 export interface CategorySummary {
@@ -24,16 +69,41 @@ export interface AnalysisOptions {
   excludePatterns: string[];
 }
 
+export interface BaselineEntry {
+  fingerprint: string;
+  rule: string;
+  file: string;
+  line: number;
+  title: string;
+}
+
+export interface BaselineSummary {
+  path: string;
+  knownIssues: number;
+  newIssues: number;
+  fixedIssues: BaselineEntry[];
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: 'timeout' | 'error';
+  message: string;
+}
+
 export interface Report {
   summary: {
     totalFiles: number;
     totalIssues: number;
+    totalSuppressedIssues: number;
     totalLinesOfCode: number;
     overallScore: number;
     analysisDate: Date;
     options: AnalysisOptions;
+    baseline?: BaselineSummary;
+    metrics?: MetricsSummary;
   };
   files: FileAnalysis[];
+  skippedFiles: SkippedFile[];
   categories: CategorySummary[];
   topIssues: Issue[];
 }
@@ -43,12 +113,14 @@ export class ReportBuilder {
     summary: {
       totalFiles: 0,
       totalIssues: 0,
+      totalSuppressedIssues: 0,
       totalLinesOfCode: 0,
       overallScore: 0,
       analysisDate: new Date(),
       options: { language: '', includePatterns: [], excludePatterns: [] }
     },
     files: [],
+    skippedFiles: [],
     categories: [],
     topIssues: []
   };
@@ -62,20 +134,32 @@ export class ReportBuilder {
     return this;
   }
 
+  withBaseline(baseline: BaselineSummary): ReportBuilder {
+    this.report.summary!.baseline = baseline;
+    return this;
+  }
+
   addFile(fileAnalysis: FileAnalysis): ReportBuilder {
     this.report.files!.push(fileAnalysis);
     this.updateSummary();
     return this;
   }
 
+  addSkippedFile(skippedFile: SkippedFile): ReportBuilder {
+    this.report.skippedFiles!.push(skippedFile);
+    return this;
+  }
+
   private updateSummary(): void {
     const files = this.report.files!;
     const allIssues = files.flatMap(f => f.issues);
     
     this.report.summary!.totalFiles = files.length;
     this.report.summary!.totalIssues = allIssues.length;
+    this.report.summary!.totalSuppressedIssues = files.reduce((sum, f) => sum + f.suppressedIssues, 0);
     this.report.summary!.totalLinesOfCode = files.reduce((sum, f) => sum + f.linesOfCode, 0);
     this.report.summary!.overallScore = this.calculateOverallScore(files);
+    this.report.summary!.metrics = this.summarizeMetrics(files);
     
     this.updateCategories(allIssues);
     this.updateTopIssues(allIssues);
@@ -88,6 +172,23 @@ export class ReportBuilder {
     return Math.round(avgScore * 100) / 100;
   }
 
+  private summarizeMetrics(files: FileAnalysis[]): MetricsSummary | undefined {
+    const measured = files.filter(f => f.metrics?.maintainabilityIndex !== undefined);
+    if (measured.length === 0) return undefined;
+
+    const indexes = measured.map(f => f.metrics.maintainabilityIndex!);
+    const sumHalstead = (field: 'volume' | 'effort' | 'estimatedBugs') =>
+      Math.round(measured.reduce((sum, f) => sum + (f.metrics.halstead?.[field] ?? 0), 0) * 100) / 100;
+
+    return {
+      averageMaintainabilityIndex: Math.round(indexes.reduce((sum, value) => sum + value, 0) / indexes.length * 100) / 100,
+      lowestMaintainabilityIndex: Math.min(...indexes),
+      totalVolume: sumHalstead('volume'),
+      totalEffort: sumHalstead('effort'),
+      estimatedBugs: sumHalstead('estimatedBugs')
+    };
+  }
+
   private updateCategories(issues: Issue[]): void {
     const categoryMap = new Map<IssueCategory, CategorySummary>();
     
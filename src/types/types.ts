@@ -20,6 +20,10 @@ export interface CLIOptions {
   timeout?: string;
   debug?: boolean;
   quiet?: boolean;
+  baseline?: string;
+  criarBaseline?: string;
+  desde?: string;
+  apenasLinhasAlteradas?: boolean;
 }
 
 // Tipos para validação
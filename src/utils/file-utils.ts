@@ -2,6 +2,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 export class FileUtils {
+  private static readonly PROJECT_MARKERS = ['.revisor-config.json', 'revisor.config.json', '.git'];
+
   static async exists(filePath: string): Promise<boolean> {
     try {
       await fs.promises.access(filePath);
@@ -41,6 +43,47 @@ export class FileUtils {
     return path.normalize(filePath).replace(/\\/g, '/');
   }
 
+  /**
+   * Testa um caminho contra um glob com *, ** e ?. O padrão pode casar a
+   * partir de qualquer diretório: "fixtures/**" vale para /projeto/fixtures/a.js.
+   */
+  static matchesGlob(filePath: string, pattern: string): boolean {
+    const source = pattern
+      .replace(/\\/g, '/')
+      .replace(/^\.?\//, '')
+      .split(/(\*\*\/?|\*|\?)/)
+      .map(part => {
+        if (part === '**/') return '(?:.*/)?';
+        if (part === '**') return '.*';
+        if (part === '*') return '[^/]*';
+        if (part === '?') return '[^/]';
+        return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    return new RegExp(`(?:^|/)${source}$`).test(FileUtils.normalizePath(filePath));
+  }
+
+  /**
+   * Sobe a partir do caminho analisado até o primeiro diretório com arquivo
+   * de configuração do revisor ou com .git. Sem nenhum dos dois, usa o
+   * diretório atual.
+   */
+  static findProjectRoot(targetPath: string): string {
+    const resolved = path.resolve(targetPath);
+    let directory = fs.existsSync(resolved) && fs.statSync(resolved).isDirectory() ? resolved : path.dirname(resolved);
+
+    for (;;) {
+      if (FileUtils.PROJECT_MARKERS.some(marker => fs.existsSync(path.join(directory, marker)))) {
+        return directory;
+      }
+
+      const parent = path.dirname(directory);
+      if (parent === directory) return process.cwd();
+      directory = parent;
+    }
+  }
+
   static async readFile(filePath: string): Promise<string> {
     return fs.promises.readFile(filePath, 'utf8');
   }
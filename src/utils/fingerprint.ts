@@ -0,0 +1,118 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { IssueLocation } from '../models/issue';
+import { ParsedFile } from '../detectors/base/detector';
+
+const TOKEN_PATTERN = /[A-Za-z_$][\w$]*|\d+(?:\.\d+)?|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`|[^\s\w]/g;
+
+export class Fingerprint {
+  private static root = process.cwd();
+
+  /**
+   * Caminhos entram no fingerprint relativos à raiz do projeto, para que a
+   * mesma baseline valha ao rodar a partir de qualquer subdiretório.
+   */
+  static setRoot(root: string): void {
+    this.root = root;
+  }
+
+  static getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * Gera um identificador estável para o problema. Não usa linha nem coluna,
+   * então sobrevive a deslocamentos do código acima do trecho sinalizado.
+   */
+  static compute(rule: string, location: IssueLocation, file: ParsedFile): string {
+    const symbol = this.findEnclosingSymbol(file.ast, location.line, location.column);
+    const tokens = this.normalizeSnippet(file.content, location);
+
+    const source = [
+      rule,
+      this.toRelativePath(file.path),
+      symbol,
+      this.hash(tokens)
+    ].join('|');
+
+    return this.hash(source);
+  }
+
+  static hash(value: string): string {
+    return crypto.createHash('sha1').update(value).digest('hex').slice(0, 16);
+  }
+
+  static findEnclosingSymbol(ast: any, line: number, column: number): string {
+    const names: string[] = [];
+
+    const visit = (node: any, parent: any): void => {
+      if (!node || typeof node !== 'object') return;
+
+      if (node.type && node.loc && !this.containsPosition(node, line, column)) return;
+
+      const name = this.getSymbolName(node, parent);
+      if (name) names.push(name);
+
+      for (const key in node) {
+        if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments' || key === 'comments' || key === 'tokens') continue;
+
+        const child = node[key];
+        if (Array.isArray(child)) {
+          child.forEach(item => visit(item, node));
+        } else if (child && typeof child === 'object' && child.type) {
+          visit(child, node);
+        }
+      }
+    };
+
+    visit(ast, null);
+    return names.join('.');
+  }
+
+  private static normalizeSnippet(content: string, location: IssueLocation): string {
+    // Problemas de arquivo inteiro não têm faixa; o trecho não os diferencia
+    if (location.endLine === undefined) return '';
+
+    const sourceLine = content.split('\n')[location.line - 1] ?? '';
+    return (sourceLine.match(TOKEN_PATTERN) || []).join(' ');
+  }
+
+  private static containsPosition(node: any, line: number, column: number): boolean {
+    const { start, end } = node.loc;
+
+    if (line < start.line || line > end.line) return false;
+    if (line === start.line && column < start.column) return false;
+    if (line === end.line && column > end.column) return false;
+    return true;
+  }
+
+  private static getSymbolName(node: any, parent: any): string | null {
+    switch (node.type) {
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+        return node.id?.name ?? null;
+
+      case 'ClassMethod':
+      case 'ClassPrivateMethod':
+      case 'ObjectMethod':
+      case 'TSDeclareMethod':
+        return node.key?.name ?? node.key?.id?.name ?? node.key?.value ?? null;
+
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'ClassExpression':
+        if (node.id?.name) return node.id.name;
+        if (parent?.type === 'VariableDeclarator') return parent.id?.name ?? null;
+        if (parent?.type === 'ObjectProperty' || parent?.type === 'ClassProperty') return parent.key?.name ?? null;
+        if (parent?.type === 'AssignmentExpression') return parent.left?.property?.name ?? parent.left?.name ?? null;
+        return null;
+
+      default:
+        return null;
+    }
+  }
+
+  static toRelativePath(filePath: string): string {
+    return path.relative(this.root, path.resolve(filePath)).split(path.sep).join('/');
+  }
+}
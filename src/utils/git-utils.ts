@@ -0,0 +1,122 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export class GitUtils {
+  private static readonly MAX_BUFFER = 64 * 1024 * 1024;
+
+  static async getRepositoryRoot(cwd: string): Promise<string> {
+    const output = await this.run(['rev-parse', '--show-toplevel'], cwd);
+    return output.trim();
+  }
+
+  /**
+   * Arquivos alterados desde a ref, incluindo os novos que ainda não foram
+   * adicionados ao git (respeitando o .gitignore).
+   */
+  static async getChangedFiles(ref: string, repoRoot: string): Promise<string[]> {
+    const output = await this.run(['diff', '--name-only', '-z', '--diff-filter=ACMRT', '--end-of-options', ref, '--'], repoRoot);
+    const untracked = await this.getUntrackedFiles(repoRoot);
+
+    return [...this.splitNulSeparated(output), ...untracked].map(file => path.resolve(repoRoot, file));
+  }
+
+  static async getChangedLines(ref: string, repoRoot: string): Promise<Map<string, LineRange[]>> {
+    // Sem core.quotepath, caminhos com acentos vêm entre aspas e com escapes octais; os prefixos
+    // são fixados para não depender de diff.noprefix ou diff.mnemonicPrefix do usuário
+    const output = await this.run([
+      '-c', 'core.quotepath=off',
+      'diff', '--unified=0', '--no-color', '--diff-filter=ACMRT', '--src-prefix=a/', '--dst-prefix=b/',
+      '--end-of-options', ref, '--'
+    ], repoRoot);
+    const changes = new Map<string, LineRange[]>();
+    let currentFile: string | null = null;
+
+    for (const line of output.split('\n')) {
+      if (line.startsWith('+++ ')) {
+        const target = this.unquotePath(line.slice(4).trim());
+        currentFile = target === '/dev/null' ? null : path.resolve(repoRoot, target.replace(/^b\//, ''));
+        if (currentFile && !changes.has(currentFile)) {
+          changes.set(currentFile, []);
+        }
+        continue;
+      }
+
+      const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (hunk && currentFile) {
+        const start = parseInt(hunk[1], 10);
+        const count = hunk[2] !== undefined ? parseInt(hunk[2], 10) : 1;
+
+        // Hunks só de remoção não têm linhas novas para sinalizar
+        if (count > 0) {
+          changes.get(currentFile)!.push({ start, end: start + count - 1 });
+        }
+      }
+    }
+
+    // Arquivos novos fora do git não aparecem no diff: todas as linhas contam como alteradas
+    for (const file of await this.getUntrackedFiles(repoRoot)) {
+      changes.set(path.resolve(repoRoot, file), [{ start: 1, end: Number.MAX_SAFE_INTEGER }]);
+    }
+
+    return changes;
+  }
+
+  private static async getUntrackedFiles(repoRoot: string): Promise<string[]> {
+    const output = await this.run(['ls-files', '--others', '--exclude-standard', '-z'], repoRoot);
+    return this.splitNulSeparated(output);
+  }
+
+  private static splitNulSeparated(output: string): string[] {
+    return output.split('\0').filter(Boolean);
+  }
+
+  /**
+   * Mesmo com core.quotepath=off, o git põe entre aspas caminhos com aspas,
+   * barras invertidas ou caracteres de controle, escapando-os como em C.
+   */
+  private static unquotePath(value: string): string {
+    if (!value.startsWith('"') || !value.endsWith('"')) return value;
+
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\', a: '\x07', b: '\b', f: '\f', v: '\v' };
+    const bytes: number[] = [];
+    const inner = value.slice(1, -1);
+
+    for (let i = 0; i < inner.length; i++) {
+      const char = inner[i];
+      if (char !== '\\') {
+        bytes.push(...Buffer.from(char, 'utf8'));
+        continue;
+      }
+
+      const octal = /^[0-7]{3}/.exec(inner.slice(i + 1));
+      if (octal) {
+        bytes.push(parseInt(octal[0], 8));
+        i += 3;
+      } else {
+        bytes.push(...Buffer.from(escapes[inner[i + 1]] ?? inner[i + 1], 'utf8'));
+        i++;
+      }
+    }
+
+    return Buffer.from(bytes).toString('utf8');
+  }
+
+  private static async run(args: string[], cwd: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: this.MAX_BUFFER });
+      return stdout;
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      const command = args[0] === '-c' ? args[2] : args[0];
+      throw new Error(`Falha ao executar git ${command}: ${stderr || (error as Error).message}`);
+    }
+  }
+}
@@ -19,6 +19,7 @@ export class Logger {
   private static instance: Logger;
   private logLevel: LogLevel = LogLevel.INFO;
   private context: string = 'RevisorCodigo';
+  private parent?: Logger;
 
   static getInstance(): Logger {
     if (!Logger.instance) {
@@ -31,6 +32,10 @@ export class Logger {
     this.logLevel = level;
   }
 
+  getLevel(): LogLevel {
+    return this.parent ? this.parent.getLevel() : this.logLevel;
+  }
+
   setContext(context: string): void {
     this.context = context;
   }
@@ -52,7 +57,7 @@ export class Logger {
   }
 
   private log(level: LogLevel, message: string, error?: Error, metadata?: Record<string, unknown>): void {
-    if (level > this.logLevel) return;
+    if (level > this.getLevel()) return;
 
     const entry: LogEntry = {
       timestamp: new Date(),
@@ -100,10 +105,10 @@ export class Logger {
     }
   }
 
-  // Método para criar um logger com contexto específico
+  // Método para criar um logger com contexto específico; o nível segue o do pai
   createChild(context: string): Logger {
     const child = new Logger();
-    child.logLevel = this.logLevel;
+    child.parent = this;
     child.context = `${this.context}:${context}`;
     return child;
   }
@@ -0,0 +1,21 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+let toolVersion: string | null = null;
+
+/**
+ * Versão declarada no package.json. O caminho relativo é o mesmo a partir de
+ * src/utils e de dist/utils.
+ */
+export function getToolVersion(): string {
+  if (toolVersion === null) {
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+      toolVersion = String(packageJson.version);
+    } catch {
+      toolVersion = 'desconhecida';
+    }
+  }
+
+  return toolVersion;
+}